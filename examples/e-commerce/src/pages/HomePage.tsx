@@ -1,5 +1,5 @@
 // src/pages/HomePage.tsx - E-commerce site homepage
-import { h, createResource, Suspense } from 'helix';
+import { h, createResource, Suspense, For } from 'helix';
 import ProductCard from '../components/ProductCard';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { Product } from '../types';
@@ -42,9 +42,8 @@ export default function HomePage() {
         fallback: h(LoadingSpinner, { message: 'Loading featured products...' })
       },
         h('div', { className: 'product-grid' },
-          featuredProducts()?.map(product =>
+          h(For, { each: featuredProducts }, (product: Product) =>
             h(ProductCard, {
-              key: product.id,
               product,
               navigate
             })
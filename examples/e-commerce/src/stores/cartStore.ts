@@ -1,5 +1,5 @@
 // src/stores/cartStore.ts - Cart state management
-import { createStore } from 'helix';
+import { createStore, logger, produce } from 'helix';
 import { CartItem, Product } from '../types';
 
 // Cart store state
@@ -15,15 +15,11 @@ const initialState: CartState = {
 };
 
 // Create and export the cart store
-const cartStore = createStore<CartState>({
-  name: 'cart',
-  state: initialState,
-  
-  // Optional debugging options
-  debug: {
-    enabled: process.env.NODE_ENV === 'development',
-    logActions: true
-  }
+const cartStore = createStore<CartState>(initialState, {
+  // Log updates while developing
+  middleware: process.env.NODE_ENV === 'development'
+    ? [logger({ name: 'cart' })]
+    : []
 });
 
 // Hook to access cart functionality
@@ -34,37 +30,33 @@ export function useCart() {
   const actions = {
     // Add item to cart
     addItem(product: Product, quantity = 1) {
-      const items = getState('items');
-      const existingItem = items.find(item => item.product.id === product.id);
-      
-      if (existingItem) {
-        // Update quantity if item already exists
-        setState('items', items.map(item => 
-          item.product.id === product.id 
-            ? { ...item, quantity: item.quantity + quantity } 
-            : item
-        ));
-      } else {
-        // Add new item
-        setState('items', [...items, { product, quantity }]);
-      }
+      setState('items', produce(items => {
+        const existingItem = items.find(item => item.product.id === product.id);
+
+        if (existingItem) {
+          // Update quantity if item already exists
+          existingItem.quantity += quantity;
+        } else {
+          // Add new item
+          items.push({ product, quantity });
+        }
+      }));
     },
     
     // Update item quantity
     updateQuantity(productId: string, quantity: number) {
-      const items = getState('items');
-      
-      if (quantity <= 0) {
-        // Remove item if quantity is 0 or negative
-        setState('items', items.filter(item => item.product.id !== productId));
-      } else {
-        // Update quantity
-        setState('items', items.map(item => 
-          item.product.id === productId 
-            ? { ...item, quantity } 
-            : item
-        ));
-      }
+      setState('items', produce(items => {
+        const index = items.findIndex(item => item.product.id === productId);
+        if (index === -1) return;
+
+        if (quantity <= 0) {
+          // Remove item if quantity is 0 or negative
+          items.splice(index, 1);
+        } else {
+          // Update quantity
+          items[index].quantity = quantity;
+        }
+      }));
     },
     
     // Remove item from cart
@@ -1,11 +1,11 @@
-import { h, createSignal, createEffect, onMount } from 'helix';
+import { h, createSignal, createEffect, For } from 'helix';
 import TodoItem from './TodoItem';
 import TodoForm from './TodoForm';
 import { Todo, todosStore } from '../stores/todoStore';
 
 export default function TodoList() {
   // Get state from the todo store
-  const { getState, setState, createActions } = todosStore;
+  const { getState, createActions } = todosStore;
   
   // Create a filtered todos signal
   const [filter, setFilter] = createSignal('all');
@@ -59,20 +59,6 @@ export default function TodoList() {
     }
   });
   
-  // Load todos from localStorage on mount
-  onMount(() => {
-    const storedTodos = localStorage.getItem('todos');
-    if (storedTodos) {
-      setState('todos', JSON.parse(storedTodos));
-    }
-    
-    // Save todos to localStorage when they change
-    createEffect(() => {
-      const todos = getState('todos');
-      localStorage.setItem('todos', JSON.stringify(todos));
-    });
-  });
-  
   // Get the active todo count
   const activeCount = () => {
     return getState('todos').filter(todo => !todo.completed).length;
@@ -82,9 +68,9 @@ export default function TodoList() {
     h(TodoForm, { onSubmit: actions.addTodo }),
     
     h('ul', { className: 'todo-list' },
-      filteredTodos().map(todo =>
+      // Rows are created once per todo and only move when the list changes
+      h(For, { each: filteredTodos }, (todo: Todo) =>
         h(TodoItem, {
-          key: todo.id,
           todo,
           onToggle: () => actions.toggleTodo(todo.id),
           onRemove: () => actions.removeTodo(todo.id)
@@ -1,5 +1,5 @@
 // src/stores/todoStore.ts - State management for todo items
-import { createStore } from 'helix';
+import { createStore, logger } from 'helix';
 
 // Todo item type
 export interface Todo {
@@ -22,31 +22,15 @@ const initialState: TodoState = {
   error: null
 };
 
-// Create the store
-export const todosStore = createStore<TodoState>({
-  name: 'todos',
-  state: initialState,
-  
-  // Debugging options
-  debug: {
-    enabled: process.env.NODE_ENV === 'development',
-    logActions: true
+// Create the store, saving todos to localStorage between visits
+export const todosStore = createStore<TodoState>(initialState, {
+  persist: {
+    key: 'todos',
+    include: ['todos']
   },
   
-  // Store plugins
-  plugins: [
-    // Example logger plugin
-    store => {
-      store.subscribe((state, prevState) => {
-        if (process.env.NODE_ENV === 'development') {
-          console.group('Todos State Update');
-          console.log('Previous:', prevState);
-          console.log('Current:', state);
-          console.groupEnd();
-        }
-      });
-      
-      return store;
-    }
-  ]
-});
\ No newline at end of file
+  // Log updates while developing
+  middleware: process.env.NODE_ENV === 'development'
+    ? [logger({ name: 'todos' })]
+    : []
+});
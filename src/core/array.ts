@@ -0,0 +1,145 @@
+/**
+ * Reactive list helpers for Helix
+ * Map each item once and keep the result while the item stays in the list
+ */
+
+import {
+  createMemo,
+  createRoot,
+  createSignal,
+  getOwner,
+  onCleanup,
+  untrack,
+} from './reactivity';
+
+type ListSource<T> = () => readonly T[] | null | undefined | false;
+
+/**
+ * Maps a reactive list, caching each mapped value by item identity
+ *
+ * Every item is mapped once, in its own root, and keeps its mapped value
+ * while it stays in the list, even if it moves. Its position is passed as
+ * a signal. The root is disposed when the item leaves the list.
+ */
+export function mapArray<T, U>(
+  list: ListSource<T>,
+  mapFn: (item: T, index: () => number) => U
+): () => U[] {
+  let items: T[] = [];
+  let mapped: U[] = [];
+  let disposers: Array<() => void> = [];
+  let setIndexes: Array<(index: number) => void> = [];
+
+  if (getOwner()) {
+    onCleanup(() => disposers.forEach(dispose => dispose()));
+  }
+
+  return createMemo(() => {
+    const newItems = list() || [];
+
+    return untrack(() => {
+      const newMapped: U[] = new Array(newItems.length);
+      const newDisposers: Array<() => void> = new Array(newItems.length);
+      const newSetIndexes: Array<(index: number) => void> = new Array(
+        newItems.length
+      );
+
+      // Previous positions of every item; duplicates are matched in order
+      const positions = new Map<T, number[]>();
+      items.forEach((item, i) => {
+        const indexes = positions.get(item);
+        if (indexes) {
+          indexes.push(i);
+        } else {
+          positions.set(item, [i]);
+        }
+      });
+
+      const reused = new Set<number>();
+
+      for (let i = 0; i < newItems.length; i++) {
+        const item = newItems[i];
+        const previous = positions.get(item)?.shift();
+
+        if (previous !== undefined) {
+          reused.add(previous);
+          newMapped[i] = mapped[previous];
+          newDisposers[i] = disposers[previous];
+          newSetIndexes[i] = setIndexes[previous];
+          newSetIndexes[i](i);
+        } else {
+          newMapped[i] = createRoot(dispose => {
+            const [index, setIndex] = createSignal(i);
+            newDisposers[i] = dispose;
+            newSetIndexes[i] = setIndex;
+            return mapFn(item, index);
+          });
+        }
+      }
+
+      // Dispose items that left the list
+      disposers.forEach((dispose, i) => {
+        if (!reused.has(i)) dispose();
+      });
+
+      items = newItems.slice();
+      mapped = newMapped;
+      disposers = newDisposers;
+      setIndexes = newSetIndexes;
+
+      return mapped.slice();
+    });
+  });
+}
+
+/**
+ * Maps a reactive list, caching each mapped value by index
+ *
+ * Every position is mapped once, in its own root, and receives its item as
+ * a signal that updates when a different value lands at that index. Roots
+ * are disposed when the list shrinks.
+ */
+export function indexArray<T, U>(
+  list: ListSource<T>,
+  mapFn: (item: () => T, index: number) => U
+): () => U[] {
+  const mapped: U[] = [];
+  const disposers: Array<() => void> = [];
+  const setItems: Array<(item: T | ((prev: T) => T)) => void> = [];
+
+  if (getOwner()) {
+    onCleanup(() => disposers.forEach(dispose => dispose()));
+  }
+
+  return createMemo(() => {
+    const newItems = list() || [];
+
+    return untrack(() => {
+      for (let i = 0; i < newItems.length; i++) {
+        const item = newItems[i];
+
+        if (i < mapped.length) {
+          // Items are wrapped so that function values are stored as is
+          setItems[i](() => item);
+        } else {
+          mapped[i] = createRoot(dispose => {
+            const [value, setValue] = createSignal(item);
+            disposers[i] = dispose;
+            setItems[i] = setValue;
+            return mapFn(value, i);
+          });
+        }
+      }
+
+      // Dispose positions past the end of the list
+      for (let i = newItems.length; i < mapped.length; i++) {
+        disposers[i]();
+      }
+      mapped.length = newItems.length;
+      disposers.length = newItems.length;
+      setItems.length = newItems.length;
+
+      return mapped.slice();
+    });
+  });
+}
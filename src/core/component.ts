@@ -13,14 +13,23 @@ export function h(
   props: Record<string, any> = {},
   ...children: Array<any>
 ): Element {
+  const flatChildren = children
+    .flat()
+    .filter(child => child !== undefined && child !== null && child !== false);
+
+  // Components receive their children as `props.children`
+  const elementProps =
+    typeof type === 'function' && flatChildren.length > 0
+      ? {
+          ...props,
+          children: flatChildren.length === 1 ? flatChildren[0] : flatChildren,
+        }
+      : props || {};
+
   return {
     type,
-    props: props || {},
-    children: children
-      .flat()
-      .filter(
-        child => child !== undefined && child !== null && child !== false
-      ),
+    props: elementProps,
+    children: flatChildren,
     key: props?.key,
   };
 }
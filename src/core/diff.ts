@@ -3,78 +3,214 @@
  * Optimizes DOM updates by only modifying what changed
  */
 
-import type { Element } from './types';
-import { afterLayout } from './scheduler';
+import type { Element, MountedComponent } from './types';
+import {
+  afterLayout,
+  getCurrentPriority,
+  Priority,
+  scheduleWork,
+} from './scheduler';
+import { activeHost, runWithHost } from './host';
+import type { HostNode, RendererHost } from './host';
+import { childNamespace, elementNamespace } from './namespace';
+import {
+  collectMounts,
+  flushMounts,
+  queueMount,
+  renderComponent,
+  unmountElement,
+} from './lifecycle';
+import {
+  createEffect,
+  createOwner,
+  createSignal,
+  disposeOwner,
+  getOwner,
+  onCleanup,
+  runWithOwner,
+  untrack,
+} from './reactivity';
+import type { Owner } from './reactivity';
+import { handleSuspense } from './suspense';
+
+// Last node of each multi-node range, keyed by the range's first node
+const rangeEnds = new WeakMap<HostNode, HostNode>();
+
+// Text nodes created by the renderer, which reactive text can reuse
+const textNodes = new WeakSet<HostNode>();
+
+// Props last set on each element, passed as the previous value of the next
+// update of the same prop
+const appliedProps = new WeakMap<HostNode, Record<string, any>>();
+
+// Node that took the place of a replaced first node, so that regions and
+// components holding on to the old node can find the current one
+const replacedNodes = new WeakMap<HostNode, HostNode>();
+
+// An item rendered by a reactive list, with the owner of its bindings
+interface ListRow {
+  value: any;
+  node: HostNode;
+  owner: Owner;
+}
+
+// Rows of a list after matching, and the previous rows that were dropped
+interface MatchedRows {
+  rows: ListRow[];
+  removed: ListRow[];
+}
+
+// A list update whose new rows are being created in time slices
+interface PendingRows {
+  cancel: () => void;
+  created: ListRow[];
+  // Components in the new rows, mounted once the rows are placed
+  mounts: MountedComponent[];
+  // Places the rows, once they are all created
+  commit: (() => void) | null;
+  group: ListGroup;
+}
+
+// List updates started by the same effect flush, such as one batch, which
+// are placed together once every one of them is ready
+interface ListGroup {
+  updates: PendingRows[];
+}
+
+// Group that list updates deferred now join, until one of its updates
+// starts creating rows
+let openGroup: ListGroup | null = null;
 
 /**
  * Compares two elements and updates the DOM efficiently
+ *
+ * `namespace` is the namespace that new children of `dom`'s parent are
+ * created in, `null` for HTML.
  */
 export function diff(
   oldElement: Element | null,
   newElement: Element | null,
-  dom: Node,
-  parentComponent: any = null
-): Node | null {
+  dom: HostNode,
+  parentComponent: any = null,
+  namespace: string | null = null
+): HostNode | null {
   // Both elements are null/undefined
-  if (!oldElement && !newElement) {
+  if (oldElement == null && newElement == null) {
     return null;
   }
 
-  // New element doesn't exist (remove)
-  if (oldElement && !newElement) {
-    const node = dom;
-    if (node.parentNode) {
-      node.parentNode.removeChild(node);
-    }
-    return null;
+  // New element doesn't exist (leave an empty placeholder)
+  if (oldElement != null && newElement == null) {
+    unmountElement(oldElement);
+    const placeholder = createText('');
+    replaceRange(dom, placeholder);
+    return placeholder;
   }
 
-  // Old element doesn't exist (create)
-  if (!oldElement && newElement) {
-    const newNode = createDOMNode(newElement, parentComponent);
-    if (dom.parentNode) {
-      dom.parentNode.insertBefore(newNode, dom);
-      dom.parentNode.removeChild(dom);
+  // Function children are reactive regions; a previous region was
+  // already disposed together with the owner that created it
+  if (typeof newElement === 'function') {
+    if (typeof oldElement !== 'function') {
+      unmountElement(oldElement);
     }
+    return createReactiveChild(newElement, dom, parentComponent, namespace);
+  }
+
+  // Old element doesn't exist, or was a reactive region (create)
+  if (oldElement == null || typeof oldElement === 'function') {
+    const newNode = createDOMNode(newElement!, parentComponent, namespace);
+    replaceRange(dom, newNode);
     return newNode;
   }
 
-  // Different element types
+  // Primitive values render as text
+  if (typeof oldElement !== 'object' && typeof newElement !== 'object') {
+    if (textOf(oldElement) !== textOf(newElement)) {
+      activeHost.setText(dom, textOf(newElement));
+    }
+    return dom;
+  }
+
+  // Arrays and fragments render as a range between two markers
+  if (Array.isArray(oldElement) && Array.isArray(newElement)) {
+    const parent = activeHost.parentNode(dom);
+    if (parent) {
+      updateChildren(
+        parent,
+        oldElement,
+        newElement,
+        parentComponent,
+        namespace,
+        dom,
+        rangeEnd(dom)
+      );
+    }
+    return dom;
+  }
+
+  // Different element types (or a primitive replaced by an element)
   if (
-    typeof oldElement!.type !== typeof newElement!.type ||
-    (typeof oldElement!.type === 'string' &&
-      oldElement!.type !== newElement!.type)
+    typeof oldElement !== 'object' ||
+    typeof newElement !== 'object' ||
+    Array.isArray(oldElement) ||
+    Array.isArray(newElement) ||
+    oldElement!.type !== newElement!.type
   ) {
-    const newNode = createDOMNode(newElement!, parentComponent);
-    if (dom.parentNode) {
-      dom.parentNode.replaceChild(newNode, dom);
-    }
+    unmountElement(oldElement);
+    const newNode = createDOMNode(newElement!, parentComponent, namespace);
+    replaceRange(dom, newNode);
     return newNode;
   }
 
   // Handle component updates
   if (typeof newElement!.type === 'function') {
-    // Component type - handle functional components
-    const Component = newElement!.type;
-    const oldRendered = oldElement!.rendered;
-    const newRendered = Component(newElement!.props);
+    // Component type - re-render the instance of the previous render
+    const instance = oldElement!.instance;
+    newElement!.instance = instance;
+    newElement!.rendered = oldElement!.rendered;
 
-    // Save rendered element for future diffs
-    newElement!.rendered = newRendered;
+    // The old element's computation stops tracking in favour of the new one
+    if (instance?.stopRendering) {
+      instance.stopRendering();
+    }
+
+    return renderTrackedComponent(newElement!, dom, parentComponent, namespace);
+  }
 
-    // Recursively diff the rendered content
-    return diff(oldRendered || null, newRendered, dom, newElement);
+  // Update text nodes normalized by updateChildren
+  if (newElement!.type === '#text') {
+    const value = (newElement as any).value;
+    if ((oldElement as any).value !== value) {
+      activeHost.setText(dom, value);
+    }
+    return dom;
   }
 
   // Update regular DOM element
   if (typeof newElement!.type === 'string') {
-    // Update props
-    updateDOMProps(dom as HTMLElement, oldElement!.props, newElement!.props);
-
     // Update children
     const oldChildren = oldElement!.children;
     const newChildren = newElement!.children;
-    updateChildren(dom, oldChildren, newChildren, parentComponent);
+    const type = newElement!.type;
+    updateChildren(
+      dom,
+      oldChildren,
+      newChildren,
+      parentComponent,
+      childNamespace(type, elementNamespace(type, namespace))
+    );
+
+    // Update props once the children are in place, so that a select's
+    // value can match its options
+    updateDOMProps(dom, oldElement!.props, newElement!.props);
+
+    // Schedule ref updates after layout
+    const ref = newElement!.props.ref;
+    if (typeof ref === 'function' && ref !== oldElement!.props.ref) {
+      afterLayout(() => {
+        ref(dom);
+      });
+    }
 
     return dom;
   }
@@ -83,58 +219,606 @@ export function diff(
 }
 
 /**
- * Creates a DOM node from a virtual element
+ * Creates a DOM node from a virtual element, in the namespace of the
+ * parent it is created for
  */
-function createDOMNode(element: Element, parentComponent: any = null): Node {
+export function createDOMNode(
+  element: Element,
+  parentComponent: any = null,
+  namespace: string | null = null
+): HostNode {
+  // Reactive region
+  if (typeof element === 'function') {
+    return createReactiveChild(element, null, parentComponent, namespace);
+  }
+
+  // Several nodes, between two markers
+  if (Array.isArray(element)) {
+    const start = createRangeMarkers();
+    const end = rangeEnd(start);
+    for (const child of element) {
+      insertRange(
+        activeHost.parentNode(end)!,
+        createDOMNode(child, parentComponent, namespace),
+        end
+      );
+    }
+    return start;
+  }
+
+  // Nothing to render, or a primitive
+  if (element == null || typeof element !== 'object') {
+    return createText(textOf(element));
+  }
+
   if (typeof element.type === 'function') {
-    // Component type
-    const Component = element.type;
-    const rendered = Component(element.props);
+    // Elements kept by the caller, like a branch shown again, start over
+    if (element.instance?.disposed) {
+      element.instance = undefined;
+      element.rendered = undefined;
+    }
 
-    // Save rendered element for future diffs
-    element.rendered = rendered;
+    // Component type
+    return renderTrackedComponent(element, null, parentComponent, namespace);
+  }
 
-    // Recursively create DOM node
-    return createDOMNode(rendered, element);
+  // Text wrapped by updateChildren
+  if (element.type === '#text') {
+    return createText((element as any).value);
   }
 
   if (typeof element.type === 'string') {
     // Create DOM element
-    const isNS = element.type === 'svg';
-    const node = isNS
-      ? document.createElementNS('http://www.w3.org/2000/svg', element.type)
-      : document.createElement(element.type);
-
-    // Set props
-    updateDOMProps(node, {}, element.props);
+    const ns = elementNamespace(element.type, namespace);
+    const node = activeHost.createElement(element.type, ns);
 
     // Create and append children
+    const childrenNS = childNamespace(element.type, ns);
     for (const child of element.children) {
-      if (child == null) continue;
+      insertRange(
+        node,
+        createDOMNode(child as Element, parentComponent, childrenNS)
+      );
+    }
+
+    // Set props after the children, like in diff
+    updateDOMProps(node, {}, element.props);
+
+    if (typeof element.props.ref === 'function') {
+      element.props.ref(node);
+    }
+
+    return node;
+  }
+
+  // Text nodes and fragments
+  return createText(String(element));
+}
+
+/**
+ * Renders a component inside a computation that tracks the signals it
+ * reads. When one of them changes, only this component re-renders and
+ * patches its own DOM; the computation is disposed on unmount.
+ */
+function renderTrackedComponent(
+  element: Element,
+  dom: HostNode | null,
+  parentComponent: any,
+  namespace: string | null = null
+): HostNode {
+  const parent = parentComponent?.instance ?? null;
+  // Re-renders patch the tree of the host that created it
+  const host = activeHost;
+  let initialized = false;
+
+  const stop = createEffect(() => {
+    let rendered: any;
+    try {
+      rendered = renderComponent(element, parent);
+    } catch (error) {
+      // A re-render that suspended leaves the current content in place
+      if (!handleSuspense(error, initialized, rerunner())) throw error;
+      if (initialized) return;
+      // Render nothing until the boundary shows its fallback
+      rendered = null;
+    }
+
+    untrack(() =>
+      runWithHost(host, () => {
+        const instance = element.instance!;
+        const previous = element.rendered;
+        const current = initialized ? currentNode(instance.node) : dom;
+
+        // Save rendered element for future diffs
+        element.rendered = rendered;
 
-      if (
-        typeof child === 'string' ||
-        typeof child === 'number' ||
-        typeof child === 'boolean'
+        // Create or patch the rendered content under the instance's owner
+        const node = runWithOwner(instance.owner, () =>
+          current
+            ? diff(previous ?? null, rendered, current, element, namespace)
+            : createDOMNode(rendered, element, namespace)
+        );
+
+        if (initialized) {
+          // Ancestors rendering the same root node now start at the new one
+          let ancestor = instance.parent;
+          while (ancestor && ancestor.node === current) {
+            ancestor.node = node;
+            ancestor = ancestor.parent;
+          }
+        }
+
+        queueMount(instance, node!);
+
+        // Components created by a re-render are already in the document
+        if (initialized) {
+          flushMounts();
+        }
+      })
+    );
+
+    initialized = true;
+  });
+
+  element.instance!.stopRendering = stop;
+  return element.instance!.node!;
+}
+
+/**
+ * Renders a function child as a reactive region: an effect re-evaluates
+ * the function and patches only this part of the DOM. Text values update
+ * the text node in place; arrays render as a list between two markers.
+ * The region is owned by whatever renders it and unmounts its content
+ * when that owner is disposed.
+ */
+function createReactiveChild(
+  fn: () => any,
+  dom: HostNode | null,
+  parentComponent: any,
+  namespace: string | null = null
+): HostNode {
+  // First node of the region's range
+  let node = dom;
+  let value: any;
+  // Rendered items while the value is an array
+  let rows: ListRow[] | null = null;
+  // List update still creating rows, while the current rows stay shown
+  let pending: PendingRows | null = null;
+  const host = activeHost;
+  let initialized = false;
+
+  // Renders a new value of the region
+  const update = (next: any) =>
+    runWithHost(host, () => {
+      // Nested regions and components may have replaced the first node
+      if (node) {
+        node = currentNode(node);
+      }
+
+      // A newer value supersedes an unfinished list update
+      if (pending) {
+        discardPending(pending);
+        pending = null;
+      }
+
+      if (Array.isArray(next) && rows && rows.length > 0 && deferUpdates()) {
+        pending = deferList(
+          rows,
+          next,
+          rangeEnd(node!),
+          parentComponent,
+          namespace,
+          rerunner(),
+          result => {
+            pending = null;
+            rows = result;
+          }
+        );
+      } else if (Array.isArray(next)) {
+        if (!rows) {
+          if (initialized) {
+            unmountElement(value);
+          }
+          const start = createRangeMarkers();
+          if (node) {
+            replaceRange(node, start);
+          }
+          node = start;
+          rows = [];
+        }
+        rows = patchList(
+          rows,
+          next,
+          rangeEnd(node!),
+          parentComponent,
+          namespace
+        );
+      } else if (rows) {
+        const created = createDOMNode(next, parentComponent, namespace);
+        disposeRows(rows, true);
+        rows = null;
+        replaceRange(node!, created);
+        node = created;
+      } else if (initialized) {
+        node = diff(value, next, node!, parentComponent, namespace);
+      } else if (
+        node &&
+        textNodes.has(node) &&
+        rangeEnd(node) === node &&
+        isPrimitive(next)
       ) {
-        node.appendChild(document.createTextNode(String(child)));
+        activeHost.setText(node, textOf(next));
       } else {
-        node.appendChild(createDOMNode(child, parentComponent));
+        const created = createDOMNode(next, parentComponent, namespace);
+        if (node) {
+          replaceRange(node, created);
+        }
+        node = created;
       }
+    });
+
+  createEffect(() => {
+    let next: any;
+    try {
+      next = fn();
+      untrack(() => update(next));
+    } catch (error) {
+      // An update that suspended leaves the current content in place
+      if (!handleSuspense(error, initialized, rerunner())) throw error;
+      if (initialized) return;
+      next = null;
+      untrack(() => update(next));
     }
 
-    return node;
+    value = next;
+
+    // Components created by an update are already in the document
+    if (initialized) {
+      flushMounts();
+    }
+    initialized = true;
+  });
+
+  onCleanup(() => {
+    if (pending) {
+      discardPending(pending);
+    }
+    if (rows) {
+      disposeRows(rows, false);
+    } else {
+      unmountElement(value);
+    }
+  });
+
+  return node!;
+}
+
+/**
+ * Checks whether list updates should be time-sliced: updates run from
+ * urgent tasks, like event handlers, are applied at once. Creating the rows
+ * of a list update is the only rendering work that is sliced; mounting and
+ * diffing other content always run to completion.
+ */
+function deferUpdates(): boolean {
+  return getCurrentPriority() !== Priority.HIGH;
+}
+
+/**
+ * Creates the new rows of a list update in time slices, then places them
+ * and mounts their components in one go, calling `done` with the rows.
+ * Updates started by the same flush are placed together.
+ */
+function deferList(
+  rows: ListRow[],
+  items: any[],
+  end: HostNode,
+  parentComponent: any,
+  namespace: string | null,
+  retry: () => void,
+  done: (rows: ListRow[]) => void
+): PendingRows {
+  const host = activeHost;
+  const owner = getOwner();
+  const group = openGroup ?? (openGroup = { updates: [] });
+  const update: PendingRows = {
+    cancel: () => {},
+    created: [],
+    mounts: [],
+    commit: null,
+    group,
+  };
+  group.updates.push(update);
+  const units = matchRows(
+    rows,
+    items,
+    update.created,
+    parentComponent,
+    namespace
+  );
+
+  update.cancel = scheduleWork(
+    {
+      next: () => {
+        // The flush that started the group is over once its work runs
+        if (openGroup === group) openGroup = null;
+        try {
+          return collectMounts(() => units.next(), update.mounts);
+        } catch (error) {
+          // A suspended row leaves the list as it is until `retry`
+          discardPending(update);
+          if (!handleSuspense(error, true, retry, owner)) throw error;
+          return { done: false, value: undefined };
+        }
+      },
+    },
+    matched => {
+      update.commit = () => {
+        runWithHost(host, () => placeRows(matched, end));
+        done(matched.rows);
+      };
+      commitGroup(group);
+    }
+  );
+  return update;
+}
+
+/**
+ * Places the rows of every update in a group once all of them are ready,
+ * then mounts their components
+ */
+function commitGroup(group: ListGroup): void {
+  const { updates } = group;
+  if (updates.length === 0 || updates.some(update => !update.commit)) return;
+
+  group.updates = [];
+  if (openGroup === group) openGroup = null;
+  for (const update of updates) update.commit!();
+  for (const update of updates) flushMounts(update.mounts);
+}
+
+/**
+ * Cancels an unfinished list update and disposes the rows it created,
+ * which were never inserted. The rest of its group no longer waits for it.
+ */
+function discardPending(update: PendingRows): void {
+  update.cancel();
+  disposeRows(update.created.splice(0), false);
+
+  const { group } = update;
+  const index = group.updates.indexOf(update);
+  if (index !== -1) {
+    group.updates.splice(index, 1);
+    commitGroup(group);
   }
+}
 
-  // Text nodes and fragments
-  return document.createTextNode(String(element));
+/**
+ * Returns a function that re-runs the running computation, for a render
+ * that suspended to try again
+ */
+function rerunner(): () => void {
+  const [version, setVersion] = createSignal(0);
+  version();
+  return () => setVersion(current => current + 1);
+}
+
+/**
+ * Creates a text node with the active host
+ */
+function createText(value: string): HostNode {
+  const node = activeHost.createText(value);
+  textNodes.add(node);
+  return node;
+}
+
+/**
+ * Creates the empty text nodes that delimit a range, inside a fragment
+ * until the range is inserted, and returns the start marker
+ */
+function createRangeMarkers(): HostNode {
+  const start = createText('');
+  const end = createText('');
+  const fragment = activeHost.createFragment();
+  activeHost.insert(fragment, start, null);
+  activeHost.insert(fragment, end, null);
+  rangeEnds.set(start, end);
+  return start;
+}
+
+/**
+ * Updates the items of a reactive list, placed before its end marker
+ */
+function patchList(
+  rows: ListRow[],
+  items: any[],
+  end: HostNode,
+  parentComponent: any,
+  namespace: string | null
+): ListRow[] {
+  const units = matchRows(rows, items, [], parentComponent, namespace);
+  let step = units.next();
+  while (!step.done) step = units.next();
+
+  placeRows(step.value, end);
+  return step.value.rows;
+}
+
+/**
+ * Matches list items to rows, creating rows for new items and yielding
+ * after each one. Items are matched by identity, so rows that stay in the
+ * list keep their DOM and bindings. New rows are also added to `created`,
+ * and nothing is inserted or removed until the result is placed.
+ */
+function* matchRows(
+  rows: ListRow[],
+  items: any[],
+  created: ListRow[],
+  parentComponent: any,
+  namespace: string | null,
+  // Captured on call, as creation may resume outside the calling effect
+  owner: Owner | null = getOwner(),
+  host: RendererHost = activeHost
+): Generator<void, MatchedRows> {
+  // Previous rows of every value; duplicates are matched in order
+  const available = new Map<any, ListRow[]>();
+  for (const row of rows) {
+    const matches = available.get(row.value);
+    if (matches) {
+      matches.push(row);
+    } else {
+      available.set(row.value, [row]);
+    }
+  }
+
+  const newRows: ListRow[] = [];
+  for (const item of items) {
+    const row = available.get(item)?.shift();
+    if (row) {
+      newRows.push(row);
+      continue;
+    }
+
+    // Bindings of each row live until the row leaves the list
+    const rowOwner = createOwner(owner);
+    const node = runWithHost(host, () =>
+      runWithOwner(rowOwner, () =>
+        createDOMNode(item, parentComponent, namespace)
+      )
+    );
+    const newRow = { value: item, node, owner: rowOwner };
+    newRows.push(newRow);
+    created.push(newRow);
+    yield;
+  }
+
+  return { rows: newRows, removed: [...available.values()].flat() };
+}
+
+/**
+ * Removes rows that left the list and moves the others into order before
+ * the list's end marker
+ */
+function placeRows({ rows, removed }: MatchedRows, end: HostNode): void {
+  disposeRows(removed, true);
+
+  // Place rows from the end so each one lands before its successor
+  let next = end;
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const first = rowNode(rows[i]);
+    if (activeHost.nextSibling(rangeEnd(first)) !== next) {
+      insertRange(activeHost.parentNode(end)!, first, next);
+    }
+    next = first;
+  }
+}
+
+/**
+ * Unmounts and disposes list rows, optionally removing their DOM
+ */
+function disposeRows(rows: ListRow[], remove: boolean): void {
+  for (const row of rows) {
+    unmountElement(row.value);
+    disposeOwner(row.owner);
+    if (remove) {
+      removeRange(rowNode(row));
+    }
+  }
+}
+
+/**
+ * Returns the current first node of a row; components may have replaced
+ * the node they first rendered
+ */
+function rowNode(row: ListRow): HostNode {
+  return currentNode(row.value?.instance?.node ?? row.node);
+}
+
+/**
+ * Returns the last node of the range that starts at `node`
+ */
+function rangeEnd(node: HostNode): HostNode {
+  return rangeEnds.get(node) ?? node;
+}
+
+/**
+ * Moves the range that starts at `node` into `parent`, before `before`
+ */
+export function insertRange(
+  parent: HostNode,
+  node: HostNode,
+  before: HostNode | null = null
+): void {
+  const end = rangeEnd(node);
+  let current: HostNode | null = node;
+
+  while (current) {
+    const next = current === end ? null : activeHost.nextSibling(current);
+    activeHost.insert(parent, current, before);
+    current = next;
+  }
+}
+
+/**
+ * Removes the range that starts at `node` from its parent
+ */
+function removeRange(node: HostNode): void {
+  const end = rangeEnd(node);
+  const parent = activeHost.parentNode(node);
+  let current: HostNode | null = node;
+
+  while (parent && current) {
+    const next = current === end ? null : activeHost.nextSibling(current);
+    activeHost.remove(parent, current);
+    current = next;
+  }
+}
+
+/**
+ * Replaces the range that starts at `node` with the range of `replacement`
+ */
+function replaceRange(node: HostNode, replacement: HostNode): void {
+  const parent = activeHost.parentNode(node);
+  if (!parent) return;
+
+  insertRange(parent, replacement, node);
+  removeRange(node);
+  replacedNodes.set(node, replacement);
+}
+
+/**
+ * Follows replacements from a node that may have been replaced, for
+ * example by a nested region, to the node in its place now
+ */
+function currentNode(node: HostNode): HostNode {
+  let current = node;
+  while (replacedNodes.has(current)) {
+    current = replacedNodes.get(current);
+  }
+  return current;
+}
+
+/**
+ * Returns the text a primitive renders as. Like `null`, booleans render
+ * nothing, so `cond() && h(...)` can hide content.
+ */
+function textOf(value: any): string {
+  return value == null || typeof value === 'boolean' ? '' : String(value);
+}
+
+/**
+ * Checks whether a value renders as plain text
+ */
+function isPrimitive(value: any): boolean {
+  return (
+    value == null || (typeof value !== 'object' && typeof value !== 'function')
+  );
 }
 
 /**
  * Updates DOM element props
  */
 function updateDOMProps(
-  node: HTMLElement | SVGElement,
+  node: HostNode,
   oldProps: Record<string, any>,
   newProps: Record<string, any>
 ): void {
@@ -149,159 +833,295 @@ function updateDOMProps(
       continue;
     }
 
-    const oldValue = oldProps[name];
     const newValue = newProps[name];
 
-    // Remove props that don't exist in new props
-    if (newValue == null || newValue === false) {
-      if (name.startsWith('on')) {
-        const eventName = name.slice(2).toLowerCase();
-        node.removeEventListener(eventName, oldValue);
-      } else {
-        node.removeAttribute(name);
-      }
-      continue;
-    }
-
-    // Handle different prop types
-    if (name === 'style' && typeof newValue === 'object') {
-      // Style objects
-      const styleObj = newValue as CSSStyleDeclaration;
-      for (const key in styleObj) {
-        (node.style as any)[key] = styleObj[key];
-      }
-    } else if (name.startsWith('on') && typeof newValue === 'function') {
-      // Event listeners
-      const eventName = name.slice(2).toLowerCase();
-      if (oldValue) {
-        node.removeEventListener(eventName, oldValue);
-      }
-      node.addEventListener(eventName, newValue);
-    } else if (typeof newValue === 'boolean' && newValue) {
-      // Boolean attributes
-      node.setAttribute(name, '');
+    if (typeof newValue === 'function' && !name.startsWith('on')) {
+      // Reactive props update on their own; a previous binding was disposed
+      // together with the owner that created it
+      bindDOMProp(node, name, newValue);
     } else {
-      // Regular attributes
-      node.setAttribute(name, String(newValue));
+      applyProp(activeHost, node, name, newValue);
     }
   }
+}
 
-  // Handle ref prop
-  if (newProps.ref && typeof newProps.ref === 'function') {
-    // Schedule ref updates after layout
-    afterLayout(() => {
-      newProps.ref(node);
-    });
+/**
+ * Sets a prop through `host`, passing the value last set on the node as
+ * the previous one, whether a static prop or a reactive binding set it
+ */
+function applyProp(
+  host: RendererHost,
+  node: HostNode,
+  name: string,
+  value: any
+): void {
+  let applied = appliedProps.get(node);
+  if (!applied) {
+    applied = {};
+    appliedProps.set(node, applied);
   }
+  host.setProperty(node, name, value, applied[name]);
+  applied[name] = value;
+}
+
+/**
+ * Binds a prop to an accessor with an effect that updates only this prop
+ */
+function bindDOMProp(node: HostNode, name: string, accessor: () => any): void {
+  const host = activeHost;
+
+  createEffect(() => {
+    const value = accessor();
+    untrack(() => applyProp(host, node, name, value));
+  });
 }
 
 /**
- * Efficient child list reconciliation
+ * Keyed child list reconciliation
+ *
+ * Children shared at the start and end of both lists are patched in place.
+ * In the middle, children are matched by key (or position when unkeyed),
+ * and only those outside the longest run already in order are moved.
  */
 function updateChildren(
-  parentNode: Node,
+  parentNode: HostNode,
   oldChildren: any[],
   newChildren: any[],
-  parentComponent: any
+  parentComponent: any,
+  namespace: string | null,
+  start: HostNode | null = null,
+  end: HostNode | null = null
 ): void {
   // Optimize for common cases
   if (oldChildren.length === 0) {
     // Only appending
     for (const child of newChildren) {
-      if (child == null) continue;
-
-      const childNode =
-        typeof child === 'object'
-          ? createDOMNode(child, parentComponent)
-          : document.createTextNode(String(child));
-
-      parentNode.appendChild(childNode);
+      insertRange(
+        parentNode,
+        createDOMNode(child, parentComponent, namespace),
+        end
+      );
     }
     return;
   }
 
   if (newChildren.length === 0) {
     // Only removing
-    parentNode.textContent = '';
+    for (const child of oldChildren) {
+      unmountElement(child);
+    }
+    clearRange(parentNode, start, end);
     return;
   }
 
   // Convert text nodes to elements for consistent handling
-  const normalizedOldChildren = oldChildren.map(child =>
-    typeof child === 'object'
-      ? child
-      : { type: '#text', props: {}, children: [], value: String(child) }
-  );
+  const oldList = oldChildren.map(normalizeChild);
+  const newList = newChildren.map(normalizeChild);
 
-  const normalizedNewChildren = newChildren.map(child =>
-    typeof child === 'object'
-      ? child
-      : { type: '#text', props: {}, children: [], value: String(child) }
-  );
+  // Children may render several nodes, so their first nodes are found by
+  // walking the ranges rather than by position
+  const oldNodes: HostNode[] = [];
+  let cursor = start
+    ? activeHost.nextSibling(start)
+    : activeHost.firstChild(parentNode);
+  for (let i = 0; i < oldList.length; i++) {
+    oldNodes.push(cursor!);
+    cursor = cursor && activeHost.nextSibling(rangeEnd(cursor));
+  }
 
-  // Key-based reconciliation
-  const oldKeyMap = new Map();
-  normalizedOldChildren.forEach((child, i) => {
-    const key = child.key != null ? String(child.key) : `index:${i}`;
-    oldKeyMap.set(key, {
-      element: child,
-      index: i,
-      node: parentNode.childNodes[i],
-    });
-  });
+  const newNodes: HostNode[] = new Array(newList.length);
+  let oldStart = 0;
+  let newStart = 0;
+  let oldEnd = oldList.length - 1;
+  let newEnd = newList.length - 1;
 
-  // Keep track of processed old nodes
-  const processed = new Set();
+  // Common prefix
+  while (
+    oldStart <= oldEnd &&
+    newStart <= newEnd &&
+    childKey(oldList[oldStart], oldStart) ===
+      childKey(newList[newStart], newStart)
+  ) {
+    newNodes[newStart] = diff(
+      oldList[oldStart],
+      newList[newStart],
+      oldNodes[oldStart],
+      parentComponent,
+      namespace
+    )!;
+    oldStart++;
+    newStart++;
+  }
 
-  // Resulting array of child nodes
-  const newChildNodes: Node[] = [];
+  // Common suffix
+  while (
+    oldStart <= oldEnd &&
+    newStart <= newEnd &&
+    childKey(oldList[oldEnd], oldEnd) === childKey(newList[newEnd], newEnd)
+  ) {
+    newNodes[newEnd] = diff(
+      oldList[oldEnd],
+      newList[newEnd],
+      oldNodes[oldEnd],
+      parentComponent,
+      namespace
+    )!;
+    oldEnd--;
+    newEnd--;
+  }
 
-  // First pass: handle updates and moves
-  for (let i = 0; i < normalizedNewChildren.length; i++) {
-    const newChild = normalizedNewChildren[i];
-    const key = newChild.key != null ? String(newChild.key) : `index:${i}`;
-    const oldChildInfo = oldKeyMap.get(key);
+  // Everything in the middle is placed before the first suffix node
+  const after = newEnd + 1 < newList.length ? newNodes[newEnd + 1] : end;
 
-    let newChildNode: Node | null = null;
+  if (oldStart > oldEnd) {
+    // Only insertions left
+    for (let i = newStart; i <= newEnd; i++) {
+      newNodes[i] = createDOMNode(newList[i], parentComponent, namespace);
+      insertRange(parentNode, newNodes[i], after);
+    }
+    return;
+  }
 
-    if (oldChildInfo) {
-      // Update existing node
-      processed.add(key);
-      newChildNode = diff(
-        oldChildInfo.element,
-        newChild,
-        oldChildInfo.node,
-        parentComponent
-      );
-    } else {
-      // Create new node
-      newChildNode = createDOMNode(newChild, parentComponent);
+  if (newStart > newEnd) {
+    // Only removals left
+    for (let i = oldStart; i <= oldEnd; i++) {
+      unmountElement(oldList[i]);
+      removeRange(oldNodes[i]);
     }
+    return;
+  }
+
+  // Index the remaining new children by key
+  const newIndexes = new Map<string, number>();
+  for (let i = newStart; i <= newEnd; i++) {
+    newIndexes.set(childKey(newList[i], i), i);
+  }
 
-    if (newChildNode) {
-      newChildNodes.push(newChildNode);
+  // Old index of every remaining new child, or -1 when it is new
+  const sources: number[] = new Array(newEnd - newStart + 1).fill(-1);
+  let moved = false;
+  let lastIndex = 0;
+
+  for (let i = oldStart; i <= oldEnd; i++) {
+    const index = newIndexes.get(childKey(oldList[i], i));
+
+    if (index === undefined || sources[index - newStart] !== -1) {
+      // Removed, or a duplicate key
+      unmountElement(oldList[i]);
+      removeRange(oldNodes[i]);
+      continue;
+    }
+
+    sources[index - newStart] = i;
+    newNodes[index] = diff(
+      oldList[i],
+      newList[index],
+      oldNodes[i],
+      parentComponent,
+      namespace
+    )!;
+
+    if (index < lastIndex) {
+      moved = true;
+    } else {
+      lastIndex = index;
     }
   }
 
-  // Second pass: remove unused old nodes
-  for (const [key, info] of oldKeyMap.entries()) {
-    if (!processed.has(key) && info.node.parentNode === parentNode) {
-      parentNode.removeChild(info.node);
+  // Children in the longest increasing run of old indexes stay in place
+  const stable = moved ? longestIncreasingSubsequence(sources) : [];
+  let s = stable.length - 1;
+  let before = after;
+
+  for (let k = sources.length - 1; k >= 0; k--) {
+    const i = newStart + k;
+
+    if (sources[k] === -1) {
+      newNodes[i] = createDOMNode(newList[i], parentComponent, namespace);
+      insertRange(parentNode, newNodes[i], before);
+    } else if (moved) {
+      if (s >= 0 && stable[s] === k) {
+        s--;
+      } else {
+        insertRange(parentNode, newNodes[i], before);
+      }
     }
+
+    before = newNodes[i];
   }
+}
+
+/**
+ * Returns the key a child is matched by: its key, or its position
+ */
+function childKey(child: any, index: number): string {
+  return child.key != null ? String(child.key) : `index:${index}`;
+}
 
-  // Final pass: ensure correct order
-  for (let i = 0; i < newChildNodes.length; i++) {
-    const childNode = newChildNodes[i];
-    const currentChild = parentNode.childNodes[i];
+/**
+ * Returns the positions of a longest strictly increasing subsequence of
+ * `values`, skipping entries of -1
+ */
+function longestIncreasingSubsequence(values: number[]): number[] {
+  // Position of the smallest tail of every subsequence length
+  const tails: number[] = [];
+  // Position preceding each entry in its subsequence
+  const previous: number[] = new Array(values.length);
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === -1) continue;
 
-    if (childNode !== currentChild) {
-      // Insert at correct position
-      if (currentChild) {
-        parentNode.insertBefore(childNode, currentChild);
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) {
+        low = middle + 1;
       } else {
-        parentNode.appendChild(childNode);
+        high = middle;
       }
     }
+
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
   }
+
+  const result: number[] = new Array(tails.length);
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+  for (let i = tails.length - 1; i >= 0; i--) {
+    result[i] = index;
+    index = previous[index];
+  }
+
+  return result;
+}
+
+/**
+ * Removes the nodes between `start` and `end`, or all children of
+ * `parentNode` when the range is the whole element
+ */
+function clearRange(
+  parentNode: HostNode,
+  start: HostNode | null,
+  end: HostNode | null
+): void {
+  let node = start
+    ? activeHost.nextSibling(start)
+    : activeHost.firstChild(parentNode);
+  while (node && node !== end) {
+    const next = activeHost.nextSibling(node);
+    activeHost.remove(parentNode, node);
+    node = next;
+  }
+}
+
+/**
+ * Wraps primitive children so they can be keyed and diffed like elements
+ */
+function normalizeChild(child: any): any {
+  return child != null &&
+    (typeof child === 'object' || typeof child === 'function')
+    ? child
+    : { type: '#text', props: {}, children: [], value: textOf(child) };
 }
@@ -0,0 +1,154 @@
+/**
+ * Event delegation for Helix
+ * Common events are handled by one listener per render root, which looks
+ * up handlers in a per-node map instead of binding a listener per element
+ */
+
+import { Priority, runWithPriority } from './scheduler';
+
+// Bubbling events that are delegated to the render root
+const DELEGATED_EVENTS = new Set([
+  'beforeinput',
+  'click',
+  'contextmenu',
+  'dblclick',
+  'focusin',
+  'focusout',
+  'input',
+  'change',
+  'keydown',
+  'keyup',
+  'mousedown',
+  'mousemove',
+  'mouseout',
+  'mouseover',
+  'mouseup',
+  'pointerdown',
+  'pointermove',
+  'pointerout',
+  'pointerover',
+  'pointerup',
+  'submit',
+  'touchend',
+  'touchmove',
+  'touchstart',
+]);
+
+// Delegated handlers of each node, keyed by event type and phase
+const handlers = new WeakMap<Node, Map<string, EventListener>>();
+
+// Roots that already listen for delegated events
+const delegatedRoots = new WeakSet<Node>();
+
+// Events already dispatched by a root, per phase; with nested roots, the
+// first root to see an event dispatches it along the whole path
+const captured = new WeakSet<Event>();
+const bubbled = new WeakSet<Event>();
+
+/**
+ * Listens for delegated events on a render root
+ */
+export function delegateEvents(root: Node): void {
+  if (delegatedRoots.has(root)) return;
+  delegatedRoots.add(root);
+
+  for (const type of DELEGATED_EVENTS) {
+    root.addEventListener(type, dispatchCapture, true);
+    root.addEventListener(type, dispatchBubble);
+  }
+}
+
+/**
+ * Sets or removes the handler of an `on*` prop. Common events go to the
+ * node's delegated handler map; others, like `focus` or `scroll`, which
+ * don't bubble, get a direct listener.
+ */
+export function setEventHandler(
+  node: Node,
+  name: string,
+  handler: EventListener | null,
+  previous: EventListener | null
+): void {
+  const capture = name.endsWith('Capture');
+  const type = (capture ? name.slice(2, -7) : name.slice(2)).toLowerCase();
+
+  if (!DELEGATED_EVENTS.has(type)) {
+    if (previous) {
+      node.removeEventListener(type, previous, capture);
+    }
+    if (handler) {
+      node.addEventListener(type, handler, capture);
+    }
+    return;
+  }
+
+  const key = capture ? `${type}:capture` : type;
+  let nodeHandlers = handlers.get(node);
+
+  if (handler) {
+    if (!nodeHandlers) {
+      nodeHandlers = new Map();
+      handlers.set(node, nodeHandlers);
+    }
+    nodeHandlers.set(key, handler);
+  } else {
+    nodeHandlers?.delete(key);
+  }
+}
+
+/**
+ * Runs capture handlers from the outermost node down to the target
+ */
+function dispatchCapture(event: Event): void {
+  if (captured.has(event)) return;
+  captured.add(event);
+
+  dispatch(event, eventPath(event).reverse(), `${event.type}:capture`);
+}
+
+/**
+ * Runs bubble handlers from the target up to the outermost node
+ */
+function dispatchBubble(event: Event): void {
+  if (bubbled.has(event)) return;
+  bubbled.add(event);
+
+  dispatch(event, eventPath(event), event.type);
+}
+
+/**
+ * Calls the handlers stored under `key` along `path`, as if each had been
+ * bound to its node, until one stops propagation
+ */
+function dispatch(event: Event, path: Node[], key: string): void {
+  for (const node of path) {
+    const handler = handlers.get(node)?.get(key);
+    if (!handler) continue;
+
+    Object.defineProperty(event, 'currentTarget', {
+      configurable: true,
+      get: () => node,
+    });
+
+    // Updates made in response to input are flushed first
+    runWithPriority(Priority.HIGH, () => handler.call(node, event));
+
+    if (event.cancelBubble) break;
+  }
+
+  // Let the native getter take over again
+  delete (event as any).currentTarget;
+}
+
+/**
+ * Returns the nodes from the event target up to the document
+ */
+function eventPath(event: Event): Node[] {
+  const path: Node[] = [];
+
+  for (let node = event.target as Node | null; node; node = node.parentNode) {
+    path.push(node);
+  }
+
+  return path;
+}
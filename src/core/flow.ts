@@ -0,0 +1,192 @@
+/**
+ * Control flow components for Helix
+ */
+
+import { indexArray, mapArray } from './array';
+import { h } from './component';
+import { createDOMNode, insertRange } from './diff';
+import { activeHost, domHost } from './host';
+import { createMemo, onCleanup, untrack } from './reactivity';
+
+type Each<T> =
+  | readonly T[]
+  | (() => readonly T[] | null | undefined | false)
+  | null
+  | undefined
+  | false;
+
+/**
+ * Reads a prop that may be passed as a value or as an accessor
+ */
+function read<T>(value: T | (() => T)): T {
+  return typeof value === 'function' ? (value as () => T)() : value;
+}
+
+/**
+ * Wraps the children of a branch in a region of its own, so that switching
+ * branches replaces the old one instead of diffing against it. A callback
+ * with a parameter receives an accessor to the condition's current value.
+ */
+function renderBranch(children: any, when: () => any): () => any {
+  return () =>
+    typeof children === 'function' && children.length > 0
+      ? untrack(() => children(when))
+      : children;
+}
+
+/**
+ * Renders its children while `when` is truthy, and `fallback` otherwise
+ *
+ * The branch is only replaced when the condition flips, so effects and
+ * components inside it are disposed when it is hidden and not before.
+ */
+export function Show<T>(props: {
+  when: T | (() => T);
+  fallback?: any;
+  children?: any;
+}) {
+  const condition = createMemo(() => read(props.when), {
+    equals: (prev, next) => !prev === !next,
+  });
+
+  return () =>
+    condition()
+      ? renderBranch(props.children, () => read(props.when))
+      : renderBranch(props.fallback ?? null, () => read(props.when));
+}
+
+/**
+ * Renders the first `<Match>` child whose `when` is truthy, or `fallback`
+ */
+export function Switch(props: { fallback?: any; children?: any }) {
+  const matches = (
+    Array.isArray(props.children) ? props.children : [props.children]
+  ).filter(match => match && match.props);
+
+  const selected = createMemo(() =>
+    matches.findIndex(match => read(match.props.when))
+  );
+
+  return () => {
+    const index = selected();
+    if (index < 0) {
+      return renderBranch(props.fallback ?? null, () => undefined);
+    }
+
+    const match = matches[index];
+    return renderBranch(match.props.children, () => read(match.props.when));
+  };
+}
+
+/**
+ * A branch of `<Switch>`; rendered on its own, it behaves like `<Show>`
+ */
+export function Match<T>(props: { when: T | (() => T); children?: any }) {
+  return Show(props);
+}
+
+/**
+ * Renders `component`, a tag name or a component function, with the
+ * remaining props. Changing the component replaces what was rendered.
+ */
+export function Dynamic(props: {
+  component: string | ((props: any) => any) | null | undefined | false;
+  [prop: string]: any;
+}) {
+  const { component, children, ...rest } = props;
+  if (!component) return null;
+
+  const content =
+    children === undefined
+      ? []
+      : Array.isArray(children)
+        ? children
+        : [children];
+  return h(component, rest, ...content);
+}
+
+/**
+ * Renders its children into another node, `document.body` by default
+ *
+ * The content is owned by the component that renders the portal, so it
+ * sees that component's context and is removed when it unmounts. With
+ * hosts other than the DOM, `mount` must be a node of that host. Nothing
+ * is rendered on the server.
+ */
+export function Portal(props: { mount?: any; children?: any }) {
+  const host = activeHost;
+  const mount =
+    props.mount ??
+    (host === domHost && typeof document !== 'undefined'
+      ? document.body
+      : null);
+  if (!mount) return null;
+
+  const children = props.children;
+  const content = typeof children === 'function' ? children : () => children;
+
+  // Content lives in its own container so it can be removed as a whole
+  const container = host.createElement('div', null);
+  untrack(() => insertRange(container, createDOMNode(content as any)));
+  host.insert(mount, container, null);
+
+  // The content may be outside the render root, so the mount node is
+  // prepared like one, which delegates DOM events to it
+  host.prepareContainer?.(mount);
+
+  onCleanup(() => {
+    const parent = host.parentNode(container);
+    if (parent) host.remove(parent, container);
+  });
+
+  return null;
+}
+
+/**
+ * Renders a list keyed by item identity
+ *
+ * Each row is rendered once and moved, not re-rendered, when the list is
+ * reordered. Pass `each` as an accessor so that list changes update the
+ * rows without re-rendering the component that renders `<For>`.
+ */
+export function For<T>(props: {
+  each: Each<T>;
+  fallback?: any;
+  children: (item: T, index: () => number) => any;
+}) {
+  const rows = mapArray(
+    () => read(props.each),
+    (item, index) => props.children(item, index)
+  );
+
+  return () => {
+    const current = rows();
+    return current.length === 0 && props.fallback !== undefined
+      ? props.fallback
+      : current;
+  };
+}
+
+/**
+ * Renders a list keyed by index
+ *
+ * Each position is rendered once and receives its item as a signal, which
+ * suits lists of primitives or items that are replaced rather than moved.
+ */
+export function Index<T>(props: {
+  each: Each<T>;
+  fallback?: any;
+  children: (item: () => T, index: number) => any;
+}) {
+  const rows = indexArray(
+    () => read(props.each),
+    (item, index) => props.children(item, index)
+  );
+
+  return () => {
+    const current = rows();
+    return current.length === 0 && props.fallback !== undefined
+      ? props.fallback
+      : current;
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Undo history for Helix stores
+ * Records each store update as the patches it wrote, so an entry only holds
+ * the properties that changed
+ */
+
+import { batch, createSignal } from './reactivity';
+import { applyPatches } from './store';
+import type { Store, StorePatch } from './types';
+
+/**
+ * One undoable step: a store update, or the updates of a checkpoint
+ */
+export interface HistoryEntry {
+  // Action name or checkpoint label
+  label?: string;
+  patches: StorePatch[];
+}
+
+export interface HistoryOptions {
+  // Entries kept before the oldest are dropped, 100 by default
+  limit?: number;
+}
+
+export interface History {
+  undo(): void;
+  redo(): void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  // Runs `fn` and records the updates it makes as a single entry
+  checkpoint(fn: () => void, label?: string): void;
+  // Moves to the state after the first `index` entries; 0 is the state
+  // before any of them
+  jumpTo(index: number): void;
+  // Number of entries applied, and all entries, including undone ones
+  index: () => number;
+  entries: () => HistoryEntry[];
+  clear(): void;
+  // Stops recording
+  dispose(): void;
+}
+
+/**
+ * Creates an undo history for a store. Each update made from outside the
+ * store's actions, or each action call, becomes one entry.
+ *
+ * ```ts
+ * const history = createHistory(editor, { limit: 50 });
+ * history.checkpoint(() => {
+ *   setState('shapes', 0, 'x', 10);
+ *   setState('shapes', 0, 'y', 20);
+ * }, 'move');
+ * history.undo(); // moves the shape back in one step
+ * ```
+ */
+export function createHistory<T>(
+  store: Store<T>,
+  options: HistoryOptions = {}
+): History {
+  const { limit = 100 } = options;
+  // Kept outside the signals too, so updates made in effects don't track them
+  let list: HistoryEntry[] = [];
+  let position = 0;
+  const [entries, setEntries] = createSignal(list);
+  const [index, setIndex] = createSignal(position);
+
+  const commit = (next: HistoryEntry[], nextPosition: number) => {
+    list = next;
+    position = nextPosition;
+    batch(() => {
+      setEntries(list);
+      setIndex(position);
+    });
+  };
+
+  // Patches of the checkpoint being recorded
+  let group: StorePatch[] | null = null;
+  // Set while the history writes to the store itself
+  let applying = false;
+
+  // Adds an entry after the applied ones, dropping the undone ones
+  const record = (entry: HistoryEntry) => {
+    const kept = [...list.slice(0, position), entry].slice(-limit);
+    commit(kept, kept.length);
+  };
+
+  const dispose = store.use((update, next) => {
+    const result = next();
+    if (update.parent || applying) return result;
+
+    const patches = update.patches;
+    if (group) {
+      group.push(...patches);
+    } else if (patches.length > 0) {
+      record({ label: update.name, patches });
+    }
+    return result;
+  });
+
+  // Applies or undoes entries until `target` of them are applied
+  const moveTo = (target: number) => {
+    applying = true;
+    try {
+      batch(() => {
+        let current = position;
+        for (; current > target; current--) {
+          store.setState(applyPatches<T>(list[current - 1].patches, true));
+        }
+        for (; current < target; current++) {
+          store.setState(applyPatches<T>(list[current].patches));
+        }
+        commit(list, current);
+      });
+    } finally {
+      applying = false;
+    }
+  };
+
+  const checkpoint = (fn: () => void, label?: string) => {
+    // Nested checkpoints are part of the outer one
+    if (group) return fn();
+
+    const patches: StorePatch[] = (group = []);
+    try {
+      batch(fn);
+    } finally {
+      group = null;
+      if (patches.length > 0) record({ label, patches });
+    }
+  };
+
+  const jumpTo = (target: number) => {
+    if (!Number.isInteger(target) || target < 0 || target > list.length) {
+      throw new Error(
+        `Cannot jump to history entry ${target} of ${list.length}`
+      );
+    }
+    moveTo(target);
+  };
+
+  return {
+    undo: () => {
+      if (position > 0) moveTo(position - 1);
+    },
+    redo: () => {
+      if (position < list.length) moveTo(position + 1);
+    },
+    canUndo: () => index() > 0,
+    canRedo: () => index() < entries().length,
+    checkpoint,
+    jumpTo,
+    index,
+    entries,
+    clear: () => commit([], 0),
+    dispose,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Renderer hosts for Helix
+ * A host creates and arranges the nodes the renderer works with, so the
+ * same diffing can target the DOM or any other tree of nodes
+ */
+
+import { delegateEvents, setEventHandler } from './events';
+import { childNamespace } from './namespace';
+import { setProperty } from './props';
+
+// Nodes are opaque to the renderer; each host decides what they are
+export type HostNode = any;
+
+/**
+ * Operations a renderer needs from its target tree
+ */
+export interface RendererHost<N = any> {
+  // Creates an element; `namespace` is null for the host's default one
+  createElement(type: string, namespace: string | null): N;
+  createText(value: string): N;
+  setText(node: N, value: string): void;
+  // Creates a detached parent that holds nodes before they are inserted
+  createFragment(): N;
+  // Inserts or moves `node` into `parent`, before `before` or at the end
+  insert(parent: N, node: N, before: N | null): void;
+  remove(parent: N, node: N): void;
+  // Applies a prop, given the value it had before
+  setProperty(node: N, name: string, value: any, previous: any): void;
+  parentNode(node: N): N | null;
+  firstChild(node: N): N | null;
+  nextSibling(node: N): N | null;
+  // Namespace that children of a container are created in; null if absent
+  namespaceOf?(container: N): string | null;
+  // Prepares a container for its first render
+  prepareContainer?(container: N): void;
+}
+
+/**
+ * The host for browser DOM nodes
+ */
+export const domHost: RendererHost<Node> = {
+  createElement: (type, namespace) =>
+    namespace
+      ? document.createElementNS(namespace, type)
+      : document.createElement(type),
+  createText: value => document.createTextNode(value),
+  setText: (node, value) => {
+    node.textContent = value;
+  },
+  createFragment: () => document.createDocumentFragment(),
+  insert: (parent, node, before) => {
+    parent.insertBefore(node, before);
+  },
+  remove: (parent, node) => {
+    parent.removeChild(node);
+  },
+  setProperty: (node, name, value, previous) => {
+    if (
+      name.startsWith('on') &&
+      (typeof value === 'function' || typeof previous === 'function')
+    ) {
+      setEventHandler(
+        node,
+        name,
+        typeof value === 'function' ? value : null,
+        typeof previous === 'function' ? previous : null
+      );
+    } else {
+      setProperty(node as HTMLElement, name, value, previous);
+    }
+  },
+  parentNode: node => node.parentNode,
+  firstChild: node => node.firstChild,
+  nextSibling: node => node.nextSibling,
+  // Rendering into an `<svg>` creates SVG elements
+  namespaceOf: container =>
+    childNamespace(container.nodeName, (container as Element).namespaceURI),
+  // Common events are handled once, at the container
+  prepareContainer: container => delegateEvents(container),
+};
+
+// Host that the renderer currently creates and patches nodes with
+export let activeHost: RendererHost = domHost;
+
+/**
+ * Runs a function with the given host as the active host
+ */
+export function runWithHost<T>(host: RendererHost, fn: () => T): T {
+  const previous = activeHost;
+  activeHost = host;
+
+  try {
+    return fn();
+  } finally {
+    activeHost = previous;
+  }
+}
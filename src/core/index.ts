@@ -1,10 +1,19 @@
 // Core module exports
 
 export * from './reactivity';
+export * from './array';
 export * from './component';
+export * from './flow';
 export * from './render';
+export * from './renderer';
+export * from './memory';
+export { domHost } from './host';
+export type { RendererHost } from './host';
 export * from './lifecycle';
 export * from './store';
+export * from './middleware';
+export * from './storage';
+export * from './history';
 export * from './router';
 // Export resource functions individually to avoid conflicts
 import { 
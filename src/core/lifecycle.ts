@@ -2,57 +2,221 @@
  * Lifecycle hooks for Helix components
  */
 
-import { createEffect } from './reactivity';
+import {
+  createEffect,
+  createOwner,
+  disposeOwner,
+  getOwner,
+  runWithOwner,
+  trackWithOwner,
+} from './reactivity';
+import type { Element, MountedComponent } from './types';
 
-// Effect tracking state
-const currentEffect: (() => void) | null = null;
+// Instance whose component function is currently running
+let currentInstance: MountedComponent | null = null;
+
+// Instances rendered for the first time, waiting for their DOM to be inserted
+let pendingMounts: MountedComponent[] = [];
 
 /**
  * Runs a callback when component mounts
+ *
+ * Only the first render of a component registers mount callbacks. Outside
+ * a component (for example during SSR) this does nothing.
  */
 export function onMount(callback: () => void | (() => void)): void {
-  if (!currentEffect) return;
-
-  // Run after DOM is updated
-  queueMicrotask(() => {
-    const cleanup = callback();
-
-    if (typeof cleanup === 'function') {
-      // Store cleanup function
-      if (currentEffect && getComponentContext(currentEffect)) {
-        const context = getComponentContext(currentEffect);
-        if (context) {
-          context.cleanups.push(cleanup);
+  const instance = currentInstance;
+  if (!instance || instance.mounted) return;
+
+  instance.mountCallbacks.push(callback);
+}
+
+/**
+ * Runs a callback when component unmounts
+ */
+export function onUnmount(callback: () => void): void {
+  const instance = currentInstance;
+  if (!instance || instance.mounted) return;
+
+  instance.cleanup.push(callback);
+}
+
+/**
+ * Calls a function component for its instance, creating the instance on
+ * first render. Re-renders first dispose the effects and cleanups created
+ * by the previous render. Signals read by the component are tracked by
+ * the calling computation.
+ */
+export function renderComponent(
+  element: Element,
+  parent: MountedComponent | null
+): Element {
+  let instance = element.instance;
+
+  if (!instance) {
+    instance = createComponentInstance(element, parent);
+    element.instance = instance;
+  } else {
+    instance.element = element;
+    disposeOwner(instance.owner);
+  }
+
+  const Component = element.type as (props: any) => Element;
+  const prevInstance = currentInstance;
+  currentInstance = instance;
+
+  try {
+    return trackWithOwner(instance.owner, () => Component(element.props));
+  } finally {
+    currentInstance = prevInstance;
+  }
+}
+
+/**
+ * Records the DOM node of a freshly rendered instance and queues its
+ * mount callbacks. Called once the instance's subtree has been created,
+ * so children are queued before their parents.
+ */
+export function queueMount(instance: MountedComponent, node: Node): void {
+  instance.node = node;
+
+  if (!instance.mounted) {
+    pendingMounts.push(instance);
+  }
+}
+
+/**
+ * Runs a function, collecting the instances it queues for mounting into
+ * `into` instead of the pending list, for DOM that is inserted later
+ */
+export function collectMounts<T>(fn: () => T, into: MountedComponent[]): T {
+  const previous = pendingMounts;
+  pendingMounts = into;
+
+  try {
+    return fn();
+  } finally {
+    pendingMounts = previous;
+  }
+}
+
+/**
+ * Runs mount callbacks for instances whose DOM has been inserted, by
+ * default every pending instance
+ */
+export function flushMounts(instances?: MountedComponent[]): void {
+  if (!instances) {
+    instances = pendingMounts;
+    pendingMounts = [];
+  }
+
+  for (const instance of instances) {
+    if (instance.mounted || instance.disposed) continue;
+    instance.mounted = true;
+
+    const callbacks = instance.mountCallbacks;
+    instance.mountCallbacks = [];
+
+    for (const callback of callbacks) {
+      try {
+        const cleanup = runWithOwner(instance.owner, callback);
+        if (typeof cleanup === 'function') {
+          instance.cleanup.push(cleanup);
         }
+      } catch (error) {
+        console.error('Error in onMount callback:', error);
       }
     }
-  });
+  }
 }
 
 /**
- * Runs a callback when component unmounts
+ * Unmounts every component instance inside an element subtree
  */
-export function onUnmount(callback: () => void): void {
-  if (!currentEffect) return;
+export function unmountElement(element: any): void {
+  if (!element || typeof element !== 'object') return;
+
+  if (Array.isArray(element)) {
+    element.forEach(unmountElement);
+    return;
+  }
+
+  if (typeof element.type === 'function') {
+    if (element.instance) {
+      unmountInstance(element.instance);
+    }
+    return;
+  }
+
+  for (const child of element.children || []) {
+    unmountElement(child);
+  }
+}
+
+/**
+ * Unmounts a component instance: children first, then its unmount
+ * callbacks, then everything its renders created
+ */
+export function unmountInstance(instance: MountedComponent): void {
+  if (instance.disposed) return;
+  instance.disposed = true;
+
+  if (instance.stopRendering) {
+    instance.stopRendering();
+    instance.stopRendering = null;
+  }
+
+  const children = instance.children;
+  instance.children = [];
+  for (const child of children) {
+    unmountInstance(child);
+  }
 
-  const context = getComponentContext(currentEffect);
-  if (context) {
-    context.cleanups.push(callback);
+  for (const cleanup of instance.cleanup) {
+    try {
+      cleanup();
+    } catch (error) {
+      console.error('Error in onUnmount callback:', error);
+    }
+  }
+  instance.cleanup = [];
+
+  disposeOwner(instance.owner);
+
+  if (instance.parent) {
+    const siblings = instance.parent.children;
+    const index = siblings.indexOf(instance);
+    if (index >= 0) siblings.splice(index, 1);
   }
+
+  instance.mounted = false;
 }
 
 /**
- * Gets the component context for an effect
- * (Simplified implementation for demo)
+ * Creates the instance that tracks a component element across renders
  */
-function getComponentContext(
-  _effect: () => void
-): { cleanups: (() => void)[] } | null {
-  // In a real implementation, we would track the relationship
-  // between effects and component instances
-  return {
-    cleanups: [],
+function createComponentInstance(
+  element: Element,
+  parent: MountedComponent | null
+): MountedComponent {
+  const instance: MountedComponent = {
+    element,
+    node: null,
+    cleanup: [],
+    children: [],
+    parent,
+    owner: createOwner(parent ? parent.owner : getOwner()),
+    mountCallbacks: [],
+    stopRendering: null,
+    mounted: false,
+    disposed: false,
   };
+
+  if (parent) {
+    parent.children.push(instance);
+  }
+
+  return instance;
 }
 
 /**
@@ -0,0 +1,109 @@
+/**
+ * In-memory renderer host for Helix
+ * A plain object tree that renders without a DOM, for tests and as a
+ * reference for writing other hosts
+ */
+
+import { childNamespace } from './namespace';
+import type { RendererHost } from './host';
+
+/**
+ * A node of the in-memory tree
+ */
+export interface MemoryNode {
+  // Tag name, or '#text', '#fragment' or '#root'
+  type: string;
+  namespace: string | null;
+  // Props as last set by the renderer, including event handlers
+  props: Record<string, any>;
+  // Content of text nodes
+  text: string;
+  parent: MemoryNode | null;
+  children: MemoryNode[];
+}
+
+/**
+ * Creates a detached node, by default a root to render into
+ */
+export function createMemoryNode(
+  type = '#root',
+  namespace: string | null = null
+): MemoryNode {
+  return { type, namespace, props: {}, text: '', parent: null, children: [] };
+}
+
+/**
+ * The host for in-memory nodes
+ */
+export const memoryHost: RendererHost<MemoryNode> = {
+  createElement: (type, namespace) => createMemoryNode(type, namespace),
+  createText: value => {
+    const node = createMemoryNode('#text');
+    node.text = value;
+    return node;
+  },
+  setText: (node, value) => {
+    node.text = value;
+  },
+  createFragment: () => createMemoryNode('#fragment'),
+  insert: (parent, node, before) => {
+    if (node.parent) detach(node);
+
+    const index = before ? parent.children.indexOf(before) : -1;
+    if (index < 0) {
+      parent.children.push(node);
+    } else {
+      parent.children.splice(index, 0, node);
+    }
+    node.parent = parent;
+  },
+  remove: (parent, node) => {
+    if (node.parent === parent) detach(node);
+  },
+  setProperty: (node, name, value) => {
+    if (value == null) {
+      delete node.props[name];
+    } else {
+      node.props[name] = value;
+    }
+  },
+  parentNode: node => node.parent,
+  firstChild: node => node.children[0] ?? null,
+  nextSibling: node => {
+    if (!node.parent) return null;
+    const siblings = node.parent.children;
+    return siblings[siblings.indexOf(node) + 1] ?? null;
+  },
+  namespaceOf: container => childNamespace(container.type, container.namespace),
+};
+
+/**
+ * Removes a node from its parent's children
+ */
+function detach(node: MemoryNode): void {
+  const siblings = node.parent!.children;
+  siblings.splice(siblings.indexOf(node), 1);
+  node.parent = null;
+}
+
+/**
+ * Serializes a node and its descendants to markup, for assertions. Props
+ * holding functions, like event handlers, are left out.
+ */
+export function serializeMemoryNode(node: MemoryNode): string {
+  if (node.type === '#text') return node.text;
+
+  const children = node.children.map(serializeMemoryNode).join('');
+  if (node.type.startsWith('#')) return children;
+
+  let attributes = '';
+  for (const [name, value] of Object.entries(node.props)) {
+    if (typeof value === 'function' || value === false) continue;
+    attributes +=
+      value === true
+        ? ` ${name}`
+        : ` ${name}="${typeof value === 'object' ? JSON.stringify(value) : value}"`;
+  }
+
+  return `<${node.type}${attributes}>${children}</${node.type}>`;
+}
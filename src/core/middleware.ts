@@ -0,0 +1,144 @@
+/**
+ * Store middleware for Helix
+ * Built-in middleware for logging, validating and persisting store updates
+ *
+ * Middleware runs in the order it is listed, each one wrapping the rest, so
+ * the first one sees an update before and after all others.
+ */
+
+import { unwrap } from './store';
+import type {
+  Store,
+  StoreMiddleware,
+  StoreStorage,
+  StoreUpdate,
+} from './types';
+
+export interface LoggerOptions {
+  // Label printed before each update
+  name?: string;
+  log?: (...data: any[]) => void;
+}
+
+// Checks the whole state, or each key of it. A check fails by returning
+// false or an error message.
+export type StoreSchema<T> =
+  | ((state: T) => boolean | string | string[] | void)
+  | { [K in keyof T]?: (value: T[K], state: T) => boolean | string | void };
+
+export interface PersistenceOptions<T> {
+  // Key the state is saved under
+  key: string;
+  storage: StoreStorage;
+  serialize?: (state: T) => string;
+}
+
+/**
+ * Logs every update with the state before and after it
+ */
+export function logger<T>(options: LoggerOptions = {}): StoreMiddleware<T> {
+  const { name = 'store', log = console.log } = options;
+
+  return (update, next) => {
+    const previous = snapshot(update.store);
+    const result = next();
+
+    log(`[${name}] ${describeUpdate(update)}`, {
+      args: update.args,
+      previous,
+      state: snapshot(update.store),
+    });
+    return result;
+  };
+}
+
+/**
+ * Rejects updates that leave the state invalid: they throw and are
+ * reverted. Updates made inside an action are checked once, when the
+ * action returns.
+ */
+export function validator<T>(schema: StoreSchema<T>): StoreMiddleware<T> {
+  return (update, next) => {
+    const result = next();
+    if (update.parent) return result;
+
+    const errors = validate(schema, unwrap(update.store.state));
+    if (errors.length > 0) {
+      throw new Error(`Invalid store state: ${errors.join('; ')}`);
+    }
+    return result;
+  };
+}
+
+/**
+ * Saves the state to `storage` after updates, once per microtask so an
+ * action's writes are saved together and reverted updates are not
+ */
+export function persistence<T>(
+  options: PersistenceOptions<T>
+): StoreMiddleware<T> {
+  const { key, storage, serialize = JSON.stringify } = options;
+  let queued = false;
+
+  const save = (store: Store<T>) => {
+    queued = false;
+    try {
+      const written = storage.setItem(key, serialize(unwrap(store.state)));
+      if (written) written.catch(reportSaveError);
+    } catch (error) {
+      reportSaveError(error);
+    }
+  };
+
+  return (update, next) => {
+    const result = next();
+    if (!queued) {
+      queued = true;
+      queueMicrotask(() => save(update.store));
+    }
+    return result;
+  };
+}
+
+/**
+ * Runs a schema against the state, returning its error messages
+ */
+function validate<T>(schema: StoreSchema<T>, state: T): string[] {
+  const results: Array<[string, unknown]> =
+    typeof schema === 'function'
+      ? [['State', schema(state)]]
+      : Object.keys(schema).map(key => [
+          `"${key}"`,
+          (schema as any)[key]((state as any)[key], state),
+        ]);
+
+  return results.flatMap(([label, result]) => {
+    if (result === false) return [`${label} is invalid`];
+    if (typeof result === 'string') return [result];
+    return Array.isArray(result) ? result : [];
+  });
+}
+
+/**
+ * Describes an update for the logger, like `addTodo` or `todos.0.done`
+ */
+function describeUpdate(update: StoreUpdate<any>): string {
+  if (update.type === 'action') return update.name!;
+  if (update.args.length === 1) return 'setState';
+
+  const path = update.args
+    .slice(0, -1)
+    .map(part => (typeof part === 'function' ? '(filter)' : String(part)));
+  return `setState ${path.join('.')}`;
+}
+
+/**
+ * Copies the state as it is now
+ */
+function snapshot(store: Store<any>): unknown {
+  return JSON.parse(JSON.stringify(unwrap(store.state)));
+}
+
+function reportSaveError(error: unknown): void {
+  console.error('Error saving store:', error);
+}
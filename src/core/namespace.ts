@@ -0,0 +1,36 @@
+/**
+ * XML namespaces for Helix
+ * Tracks whether elements are created as HTML, SVG or MathML
+ */
+
+export const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+export const MATHML_NAMESPACE = 'http://www.w3.org/1998/Math/MathML';
+export const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+export const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Returns the namespace of an element, given the namespace of its parent;
+ * `null` stands for HTML
+ */
+export function elementNamespace(
+  tag: string,
+  parent: string | null
+): string | null {
+  if (tag === 'svg') return SVG_NAMESPACE;
+  if (tag === 'math') return MATHML_NAMESPACE;
+  return parent;
+}
+
+/**
+ * Returns the namespace of an element's children. Content inside an SVG
+ * `foreignObject` is HTML again.
+ */
+export function childNamespace(
+  tag: string,
+  namespace: string | null
+): string | null {
+  if (namespace === SVG_NAMESPACE) {
+    return tag === 'foreignObject' ? null : namespace;
+  }
+  return namespace === MATHML_NAMESPACE ? namespace : null;
+}
@@ -0,0 +1,267 @@
+/**
+ * DOM props for Helix
+ * Maps element props to DOM properties, attributes, classes and styles
+ */
+
+import { XLINK_NAMESPACE, XML_NAMESPACE } from './namespace';
+
+// Props that hold live state and are set as properties, with the value
+// they get back when the prop is removed
+const PROPERTIES: Record<string, any> = {
+  value: '',
+  checked: false,
+  selected: false,
+  indeterminate: false,
+  muted: false,
+  innerHTML: '',
+};
+
+// React-style prop names and the attributes they stand for
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for',
+};
+
+// Namespaces of prefixed attributes, like `xlink:href` on SVG elements
+const ATTRIBUTE_NAMESPACES: Record<string, string> = {
+  xlink: XLINK_NAMESPACE,
+  xml: XML_NAMESPACE,
+};
+
+// Props that only exist on the client
+const CLIENT_ONLY = new Set(['indeterminate', 'innerHTML']);
+
+/**
+ * Applies a prop to a DOM element, given the value it had before
+ *
+ * `prop:name` always sets a property and `attr:name` always sets an
+ * attribute, which custom elements sometimes need.
+ */
+export function setProperty(
+  node: HTMLElement | SVGElement,
+  name: string,
+  value: any,
+  previous: any
+): void {
+  if (name.startsWith('prop:')) {
+    (node as any)[name.slice(5)] = value;
+    return;
+  }
+
+  if (name.startsWith('attr:')) {
+    setAttribute(node, name.slice(5), value);
+    return;
+  }
+
+  if (name === 'class' || name === 'className') {
+    setClass(node, value, previous);
+  } else if (name === 'classList') {
+    setClassList(node, value ?? {}, previous ?? {});
+  } else if (name === 'style') {
+    setStyle(node, value, previous);
+  } else if (name in PROPERTIES && name in node) {
+    // Compare with the live value, which user input may have changed
+    const current = value ?? PROPERTIES[name];
+    const next = name === 'value' ? String(current) : current;
+    if ((node as any)[name] !== next) {
+      (node as any)[name] = next;
+    }
+  } else {
+    setAttribute(node, ATTRIBUTE_ALIASES[name] ?? name, value);
+  }
+}
+
+/**
+ * Sets or removes an attribute; `true` sets an empty boolean attribute
+ */
+function setAttribute(
+  node: HTMLElement | SVGElement,
+  name: string,
+  value: any
+): void {
+  const separator = name.indexOf(':');
+  const namespace =
+    separator > 0 ? ATTRIBUTE_NAMESPACES[name.slice(0, separator)] : undefined;
+
+  if (value == null || value === false) {
+    if (namespace) {
+      node.removeAttributeNS(namespace, name.slice(separator + 1));
+    } else {
+      node.removeAttribute(name);
+    }
+  } else if (namespace) {
+    node.setAttributeNS(namespace, name, value === true ? '' : String(value));
+  } else {
+    node.setAttribute(name, value === true ? '' : String(value));
+  }
+}
+
+/**
+ * Updates the `class` prop token by token, leaving classes toggled by
+ * `classList` in place
+ */
+function setClass(
+  node: HTMLElement | SVGElement,
+  value: any,
+  previous: any
+): void {
+  if (value === previous) return;
+
+  const next = classTokens(value);
+  for (const token of classTokens(previous)) {
+    if (!next.includes(token)) node.classList.remove(token);
+  }
+  if (next.length > 0) {
+    node.classList.add(...next);
+  } else if (node.classList.length === 0) {
+    node.removeAttribute('class');
+  }
+}
+
+/**
+ * Toggles the classes of a `{ className: condition }` object
+ */
+function setClassList(
+  node: HTMLElement | SVGElement,
+  value: Record<string, any>,
+  previous: Record<string, any>
+): void {
+  for (const key in previous) {
+    if (previous[key] && !value[key]) {
+      node.classList.remove(...classTokens(key));
+    }
+  }
+  for (const key in value) {
+    if (value[key] && !previous[key]) {
+      node.classList.add(...classTokens(key));
+    }
+  }
+}
+
+/**
+ * Splits a class string into its tokens
+ */
+function classTokens(value: any): string[] {
+  return value ? String(value).split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Sets a style string, or diffs a style object against the previous one
+ * so that keys it no longer has are removed
+ */
+function setStyle(
+  node: HTMLElement | SVGElement,
+  value: any,
+  previous: any
+): void {
+  if (value == null || value === false) {
+    node.removeAttribute('style');
+    return;
+  }
+
+  const style = node.style;
+
+  if (typeof value !== 'object') {
+    if (value !== previous) style.cssText = String(value);
+    return;
+  }
+
+  // An object replacing a string starts from an empty style
+  if (typeof previous === 'string') style.cssText = '';
+  const old = previous && typeof previous === 'object' ? previous : {};
+
+  for (const key in old) {
+    if (value[key] == null) setStyleProperty(style, key, null);
+  }
+  for (const key in value) {
+    if (value[key] !== old[key]) setStyleProperty(style, key, value[key]);
+  }
+}
+
+/**
+ * Sets a camelCase, kebab-case or custom (`--name`) style property
+ */
+function setStyleProperty(
+  style: CSSStyleDeclaration,
+  key: string,
+  value: any
+): void {
+  if (key.includes('-')) {
+    if (value == null) {
+      style.removeProperty(key);
+    } else {
+      style.setProperty(key, String(value));
+    }
+  } else {
+    (style as any)[key] = value == null ? '' : String(value);
+  }
+}
+
+/**
+ * Serializes the props of an element to an attribute string for server
+ * rendering, matching what `setProperty` does on the client
+ */
+export function renderAttributes(props: Record<string, any>): string {
+  const attributes = new Map<string, any>();
+  const classes: string[] = [];
+
+  for (const [key, prop] of Object.entries(props)) {
+    if (key === 'children' || key === 'ref' || key === 'key') continue;
+
+    // Event handlers and properties only exist on the client
+    if (key.startsWith('on') && typeof prop === 'function') continue;
+    if (key.startsWith('prop:') || CLIENT_ONLY.has(key)) continue;
+
+    const value = typeof prop === 'function' ? prop() : prop;
+
+    if (key === 'class' || key === 'className') {
+      classes.push(...classTokens(value));
+    } else if (key === 'classList') {
+      for (const name in value) {
+        if (value[name]) classes.push(...classTokens(name));
+      }
+    } else if (key === 'style' && value && typeof value === 'object') {
+      attributes.set('style', styleToString(value));
+    } else if (key.startsWith('attr:')) {
+      attributes.set(key.slice(5), value);
+    } else {
+      attributes.set(ATTRIBUTE_ALIASES[key] ?? key, value);
+    }
+  }
+
+  if (classes.length > 0) {
+    attributes.set('class', classes.join(' '));
+  }
+
+  let html = '';
+  for (const [name, value] of attributes) {
+    if (value === true) {
+      html += ` ${name}`;
+    } else if (value != null && value !== false) {
+      html += ` ${name}="${escapeAttribute(String(value))}"`;
+    }
+  }
+  return html;
+}
+
+/**
+ * Serializes a style object to a CSS declaration list
+ */
+function styleToString(style: Record<string, any>): string {
+  return Object.entries(style)
+    .filter(([, value]) => value != null)
+    .map(([key, value]) => {
+      const name = key.includes('-')
+        ? key
+        : key.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+      return `${name}:${value}`;
+    })
+    .join(';');
+}
+
+/**
+ * Escapes a value for use inside a double-quoted attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
@@ -1,36 +1,94 @@
 /**
  * Reactivity system for Helix
  * Inspired by SolidJS and Svelte, optimized for performance
+ *
+ * Writes push a stale mark through the graph; memos are pulled lazily and
+ * only recompute when one of their sources actually changed. Effects are
+ * queued and flushed through the scheduler.
  */
 
+import type { Context, SignalOptions } from './types';
+
 // Type definitions
 type SignalValue<T> = {
   value: T;
-  subscribers: Set<() => void>;
+  subscribers: Set<Computation>;
+  equals: (prev: T, next: T) => boolean;
+  name?: string;
 };
 
-// Current effect tracking
-let currentEffect: (() => void) | null = null;
+// Computation states: up to date, maybe stale (a memo upstream may have
+// changed), definitely stale (a direct source changed)
+const CLEAN = 0;
+const CHECK = 1;
+const DIRTY = 2;
+
+/**
+ * A node in the ownership tree. Owners dispose the computations they
+ * created and run their cleanups when they are disposed or re-run.
+ */
+export interface Owner {
+  owner: Owner | null;
+  owned: Computation[] | null;
+  cleanups: Array<() => void> | null;
+  context: Record<symbol, any> | null;
+}
+
+/**
+ * A tracked computation: an effect, or a memo when `pure` is set.
+ * Memos are also signals, so they carry a value and their own subscribers.
+ */
+interface Computation<T = any> extends Owner {
+  fn: (prev: T) => T;
+  value: T;
+  sources: Set<SignalValue<any>>;
+  subscribers: Set<Computation>;
+  equals: (prev: T, next: T) => boolean;
+  name?: string;
+  state: number;
+  pure: boolean;
+  disposed: boolean;
+}
+
+// Owner that newly created computations and cleanups are attached to
+let currentOwner: Owner | null = null;
+
+// Computation that signal reads are currently tracked against
+let currentListener: Computation | null = null;
+
+// Effects waiting to re-run, and whether a flush is already scheduled
+let queuedEffects: Computation[] = [];
+let flushScheduled = false;
+
+// Priority the pending flush was scheduled at; lower numbers are more urgent
+let flushPriority = Infinity;
+// Transition the pending flush was scheduled in
+let flushTransition: unknown = null;
+
+// Writes inside `batch` defer the effect flush until the batch completes
+let batchDepth = 0;
+
+const defaultEquals = <T>(prev: T, next: T): boolean => prev === next;
+
+// Value of a memo that has not been computed yet
+const UNSET: any = Symbol('unset');
 
 /**
  * Creates a reactive signal with getter and setter
  */
 export function createSignal<T>(
-  initialValue: T
+  initialValue: T,
+  options: SignalOptions<T> = {}
 ): [() => T, (newValue: T | ((prev: T) => T)) => void] {
   const signal: SignalValue<T> = {
     value: initialValue,
     subscribers: new Set(),
+    equals: resolveEquals(options.equals),
+    name: options.name,
   };
 
   // Reader function
-  const read = () => {
-    // Track signal access in reactive context
-    if (currentEffect) {
-      signal.subscribers.add(currentEffect);
-    }
-    return signal.value;
-  };
+  const read = nameAccessor(() => readNode(signal), options.name);
 
   // Writer function
   const write = (newValue: T | ((prev: T) => T)) => {
@@ -39,22 +97,20 @@ export function createSignal<T>(
         ? (newValue as (prev: T) => T)(signal.value)
         : newValue;
 
+    if (currentListener?.pure) {
+      console.warn(
+        `Signal${describe(signal.name)} was written inside memo${describe(currentListener.name)}; memos should not have side effects`
+      );
+    }
+
     // Only update if value changed
-    if (signal.value !== resolvedValue) {
+    if (!signal.equals(signal.value, resolvedValue)) {
       signal.value = resolvedValue;
 
-      // Import scheduler locally to avoid circular dependencies
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const { scheduleTask, Priority } = require('./scheduler');
-
-      // Schedule updates with normal priority
-      scheduleTask(() => {
-        // Create a copy to avoid issues with subscribers adding other subscribers
-        const subscribers = Array.from(signal.subscribers);
-        for (const subscriber of subscribers) {
-          subscriber();
-        }
-      }, Priority.NORMAL);
+      for (const subscriber of signal.subscribers) {
+        markStale(subscriber, DIRTY);
+      }
+      scheduleEffects();
     }
   };
 
@@ -62,37 +118,504 @@ export function createSignal<T>(
 }
 
 /**
- * Creates an effect that runs when dependencies change
+ * Runs a function with writes batched: effects depending on the signals
+ * written inside run once, synchronously, when the outermost batch
+ * completes. Memos read inside the batch are always up to date.
+ */
+export function batch<T>(fn: () => T): T {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      flushEffects();
+    }
+  }
+}
+
+/**
+ * Reads signals inside `fn` without subscribing the current computation
+ */
+export function untrack<T>(fn: () => T): T {
+  const prevListener = currentListener;
+  currentListener = null;
+
+  try {
+    return fn();
+  } finally {
+    currentListener = prevListener;
+  }
+}
+
+/**
+ * Creates a computation function with an explicit dependency list.
+ * Only `deps` are tracked; `fn` runs untracked with the current and
+ * previous input. With `defer`, the first run is skipped.
  */
-export function createEffect(fn: () => void): () => void {
-  const effect = () => {
-    // Clear previous subscriptions
-    currentEffect = effect;
-    try {
-      fn();
-    } finally {
-      currentEffect = null;
+export function on<S, R>(
+  deps: () => S,
+  fn: (input: S, prevInput: S | undefined) => R,
+  options?: { defer?: boolean }
+): () => R | undefined;
+export function on<S extends Array<() => any>, R>(
+  deps: [...S],
+  fn: (
+    input: { [K in keyof S]: ReturnType<S[K]> },
+    prevInput: { [K in keyof S]: ReturnType<S[K]> } | undefined
+  ) => R,
+  options?: { defer?: boolean }
+): () => R | undefined;
+export function on(
+  deps: (() => any) | Array<() => any>,
+  fn: (input: any, prevInput: any) => any,
+  options: { defer?: boolean } = {}
+): () => any {
+  let prevInput: any;
+  let defer = options.defer === true;
+
+  return () => {
+    const input = Array.isArray(deps) ? deps.map(dep => dep()) : deps();
+
+    if (defer) {
+      defer = false;
+      prevInput = input;
+      return undefined;
     }
+
+    const result = untrack(() => fn(input, prevInput));
+    prevInput = input;
+    return result;
   };
+}
+
+/**
+ * Creates a new ownership root that is not tracked and not disposed by
+ * any parent. Everything created inside lives until `dispose` is called.
+ */
+export function createRoot<T>(fn: (dispose: () => void) => T): T {
+  const root = createOwner();
+
+  const prevOwner = currentOwner;
+  const prevListener = currentListener;
+  currentOwner = root;
+  currentListener = null;
+
+  try {
+    return fn(() => cleanNode(root));
+  } finally {
+    currentOwner = prevOwner;
+    currentListener = prevListener;
+  }
+}
+
+/**
+ * Creates an owner linked to `parent` for context lookup but not owned by
+ * it, so it lives until `disposeOwner` is called
+ */
+export function createOwner(parent: Owner | null = currentOwner): Owner {
+  return {
+    owner: parent,
+    owned: null,
+    cleanups: null,
+    context: null,
+  };
+}
+
+/**
+ * Disposes everything an owner created and runs its cleanups. The owner
+ * itself stays usable, so a component can re-render into it.
+ */
+export function disposeOwner(owner: Owner): void {
+  cleanNode(owner);
+}
+
+/**
+ * Returns the owner that is currently collecting computations
+ */
+export function getOwner(): Owner | null {
+  return currentOwner;
+}
+
+/**
+ * Runs a function untracked with the given owner, so computations,
+ * cleanups and context lookups inside are attached to it
+ */
+export function runWithOwner<T>(owner: Owner | null, fn: () => T): T {
+  const prevOwner = currentOwner;
+  const prevListener = currentListener;
+  currentOwner = owner;
+  currentListener = null;
+
+  try {
+    return fn();
+  } finally {
+    currentOwner = prevOwner;
+    currentListener = prevListener;
+  }
+}
+
+/**
+ * Runs a function under an owner while reads stay tracked by the
+ * current computation
+ */
+export function trackWithOwner<T>(owner: Owner | null, fn: () => T): T {
+  const prevOwner = currentOwner;
+  currentOwner = owner;
+
+  try {
+    return fn();
+  } finally {
+    currentOwner = prevOwner;
+  }
+}
+
+/**
+ * Registers a callback that runs when the current owner is disposed
+ * or before the current computation re-runs
+ */
+export function onCleanup(fn: () => void): void {
+  if (!currentOwner) {
+    console.warn('onCleanup called outside a reactive owner; it will never run');
+    return;
+  }
+
+  if (currentOwner.cleanups) {
+    currentOwner.cleanups.push(fn);
+  } else {
+    currentOwner.cleanups = [fn];
+  }
+}
+
+/**
+ * Creates an effect that runs when dependencies change
+ *
+ * The effect is owned by the current owner and re-subscribes to exactly
+ * the signals it reads on every run. Returns a function that disposes it.
+ */
+export function createEffect(fn: () => void | (() => void)): () => void {
+  const computation = createComputation(fn, UNSET, false);
 
   // Run immediately
-  effect();
+  runComputation(computation);
 
-  // Return cleanup function
-  return effect;
+  // Return dispose function
+  return () => disposeComputation(computation);
 }
 
 /**
  * Creates a memoized value that updates when dependencies change
+ *
+ * Memos are lazy: the value is computed on first read and recomputed on
+ * read only if a source changed since, so reads are never stale.
  */
-export function createMemo<T>(fn: () => T): () => T {
-  const [value, setValue] = createSignal<T>(fn());
+export function createMemo<T>(
+  fn: (prev: T | undefined) => T,
+  options: SignalOptions<T> = {}
+): () => T {
+  const memo = createComputation<T>(fn, UNSET, true);
+  memo.state = DIRTY;
+  memo.name = options.name;
+  if (options.equals !== undefined) {
+    memo.equals = resolveEquals(options.equals);
+  }
 
-  createEffect(() => {
-    setValue(fn());
-  });
+  return nameAccessor(() => readNode(memo), options.name);
+}
+
+/**
+ * Turns the `equals` option into a comparator
+ */
+function resolveEquals<T>(
+  equals: SignalOptions<T>['equals']
+): (prev: T, next: T) => boolean {
+  if (equals === false) return () => false;
+  return equals || defaultEquals;
+}
 
-  return value;
+/**
+ * Gives an accessor the debug name, so it shows up in devtools and
+ * stack traces
+ */
+function nameAccessor<T extends (...args: any[]) => any>(
+  accessor: T,
+  name: string | undefined
+): T {
+  if (name) {
+    Object.defineProperty(accessor, 'name', { value: name });
+  }
+  return accessor;
+}
+
+/**
+ * Formats an optional debug name for messages
+ */
+function describe(name: string | undefined): string {
+  return name ? ` "${name}"` : '';
+}
+
+/**
+ * Creates a computation owned by the current owner
+ */
+function createComputation<T>(
+  fn: (prev: T) => any,
+  value: T,
+  pure: boolean
+): Computation<T> {
+  const computation: Computation<T> = {
+    fn,
+    value,
+    owner: currentOwner,
+    owned: null,
+    cleanups: null,
+    context: null,
+    sources: new Set(),
+    subscribers: new Set(),
+    equals: defaultEquals,
+    state: CLEAN,
+    pure,
+    disposed: false,
+  };
+
+  if (currentOwner) {
+    if (currentOwner.owned) {
+      currentOwner.owned.push(computation);
+    } else {
+      currentOwner.owned = [computation];
+    }
+  }
+
+  return computation;
+}
+
+/**
+ * Reads a signal or memo, bringing memos up to date and subscribing the
+ * current listener
+ */
+function readNode<T>(node: SignalValue<T>): T {
+  if ('fn' in node) {
+    updateIfNecessary(node as Computation);
+  }
+
+  // Track signal access in reactive context
+  if (currentListener) {
+    node.subscribers.add(currentListener);
+    currentListener.sources.add(node);
+  }
+
+  return node.value;
+}
+
+/**
+ * Marks a computation stale and its dependants possibly stale. Effects
+ * are queued the first time they leave the clean state.
+ */
+function markStale(computation: Computation, state: number): void {
+  if (computation.state >= state) return;
+
+  if (computation.state === CLEAN && !computation.pure) {
+    queuedEffects.push(computation);
+  }
+  computation.state = state;
+
+  for (const subscriber of computation.subscribers) {
+    markStale(subscriber, CHECK);
+  }
+}
+
+/**
+ * Brings a computation up to date: memos that may have changed are
+ * pulled first, and the computation re-runs only if one of them did
+ */
+function updateIfNecessary(computation: Computation): void {
+  if (computation.disposed) return;
+
+  if (computation.state === CHECK) {
+    for (const source of computation.sources) {
+      if ('fn' in source) {
+        updateIfNecessary(source as Computation);
+        if ((computation.state as number) === DIRTY) break;
+      }
+    }
+  }
+
+  if (computation.state === DIRTY) {
+    runComputation(computation);
+  } else {
+    computation.state = CLEAN;
+  }
+}
+
+/**
+ * Re-runs a computation, dropping its previous subscriptions, owned
+ * computations and cleanups first
+ */
+function runComputation(computation: Computation): void {
+  if (computation.disposed) return;
+
+  // Clear previous subscriptions
+  cleanNode(computation);
+  computation.state = CLEAN;
+
+  const prevOwner = currentOwner;
+  const prevListener = currentListener;
+  currentOwner = computation;
+  currentListener = computation;
+
+  try {
+    const hasValue = computation.value !== UNSET;
+    const result = computation.fn(hasValue ? computation.value : undefined);
+
+    if (!computation.pure) {
+      if (typeof result === 'function') {
+        onCleanup(result);
+      }
+    } else if (!hasValue || !computation.equals(computation.value, result)) {
+      computation.value = result;
+
+      // Dependants that were only possibly stale now definitely are
+      for (const subscriber of computation.subscribers) {
+        markStale(subscriber, DIRTY);
+      }
+    }
+  } catch (error) {
+    if (computation.pure && computation.name) {
+      console.error(`Error computing memo${describe(computation.name)}:`, error);
+    }
+    throw error;
+  } finally {
+    currentOwner = prevOwner;
+    currentListener = prevListener;
+  }
+}
+
+/**
+ * Schedules an effect flush unless one is pending or a batch is open
+ */
+function scheduleEffects(): void {
+  if (batchDepth > 0 || queuedEffects.length === 0) return;
+
+  // Import scheduler locally to avoid circular dependencies
+  const {
+    scheduleTask,
+    getCurrentPriority,
+    getTransition,
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+  } = require('./scheduler');
+
+  // Effects run at the priority of the write that queued them; a more
+  // urgent write schedules an earlier flush than the one already pending,
+  // and writes in a transition get a flush that belongs to it
+  const priority = getCurrentPriority();
+  const transition = getTransition();
+  if (
+    flushScheduled &&
+    priority >= flushPriority &&
+    transition === flushTransition
+  ) {
+    return;
+  }
+  flushScheduled = true;
+  flushPriority = priority;
+  flushTransition = transition;
+
+  scheduleTask(flushEffects, priority);
+}
+
+/**
+ * Runs queued effects until the queue settles
+ */
+function flushEffects(): void {
+  // Effects queued while flushing run in this flush
+  flushScheduled = true;
+  flushPriority = -Infinity;
+  flushTransition = null;
+
+  try {
+    while (queuedEffects.length > 0) {
+      const effects = queuedEffects;
+      queuedEffects = [];
+
+      for (const effect of effects) {
+        try {
+          runTop(effect);
+        } catch (error) {
+          console.error('Error in effect:', error);
+        }
+      }
+    }
+  } finally {
+    flushScheduled = false;
+    flushPriority = Infinity;
+  }
+}
+
+/**
+ * Updates a queued effect, updating stale owning computations first so
+ * that an effect about to be disposed by its parent never runs
+ */
+function runTop(computation: Computation): void {
+  if (computation.disposed || computation.state === CLEAN) return;
+
+  const ancestors: Computation[] = [computation];
+  let owner = computation.owner;
+  while (owner) {
+    if ('fn' in owner && (owner as Computation).state !== CLEAN) {
+      ancestors.push(owner as Computation);
+    }
+    owner = owner.owner;
+  }
+
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    updateIfNecessary(ancestors[i]);
+  }
+}
+
+/**
+ * Permanently disposes a computation and detaches it from its owner
+ */
+function disposeComputation(computation: Computation): void {
+  if (computation.disposed) return;
+
+  cleanNode(computation);
+  computation.disposed = true;
+
+  const owned = computation.owner?.owned;
+  if (owned) {
+    const index = owned.indexOf(computation);
+    if (index >= 0) owned.splice(index, 1);
+  }
+}
+
+/**
+ * Unsubscribes a node from its sources, disposes everything it owns and
+ * runs its cleanups
+ */
+function cleanNode(node: Owner): void {
+  if ('sources' in node) {
+    const computation = node as Computation;
+    for (const source of computation.sources) {
+      source.subscribers.delete(computation);
+    }
+    computation.sources.clear();
+  }
+
+  if (node.owned) {
+    const owned = node.owned;
+    node.owned = null;
+    for (let i = owned.length - 1; i >= 0; i--) {
+      cleanNode(owned[i]);
+      owned[i].disposed = true;
+    }
+  }
+
+  if (node.cleanups) {
+    const cleanups = node.cleanups;
+    node.cleanups = null;
+    for (let i = cleanups.length - 1; i >= 0; i--) {
+      cleanups[i]();
+    }
+  }
 }
 
 /**
@@ -130,18 +653,52 @@ export function createResource<T, K>(
 
 /**
  * Creates a context for dependency injection
+ *
+ * `Provider` stores its value on the owner of the component that renders
+ * it; `use` walks up the owner tree to the nearest provider. Values are
+ * held in signals, so reads inside effects update when a provider's value
+ * changes.
  */
-export function createContext<T>(defaultValue: T) {
-  const Context = {
-    Provider: ({ _value, children }: { _value: T; children: any }) => {
-      // Context provider implementation would go here
-      return children;
-    },
-    use: (): T => {
-      // Context consumer implementation would go here
-      return defaultValue;
-    },
+export function createContext<T>(defaultValue: T): Context<T> {
+  const id = Symbol('context');
+
+  const Provider = (props: { value: T; children?: any }) => {
+    const owner = currentOwner;
+
+    if (!owner) {
+      console.warn('Context Provider rendered outside a component; value ignored');
+      return props.children;
+    }
+
+    const entry = owner.context?.[id];
+    if (entry) {
+      entry[1](() => props.value);
+    } else {
+      owner.context = owner.context || {};
+      owner.context[id] = createSignal(props.value);
+    }
+
+    return props.children;
   };
 
-  return Context;
+  const use = (): T => {
+    let owner = currentOwner;
+
+    while (owner) {
+      const entry = owner.context?.[id];
+      if (entry) {
+        return entry[0]();
+      }
+      owner = owner.owner;
+    }
+
+    return defaultValue;
+  };
+
+  return {
+    id,
+    defaultValue,
+    Provider: Provider as Context<T>['Provider'],
+    use,
+  };
 }
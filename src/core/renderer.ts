@@ -0,0 +1,119 @@
+/**
+ * Custom renderers for Helix
+ * Renders elements into any tree of nodes described by a host
+ */
+
+import type { Element } from './types';
+import { createOwner, disposeOwner, runWithOwner } from './reactivity';
+import type { Owner } from './reactivity';
+import { flushMounts, unmountElement } from './lifecycle';
+import { createDOMNode, diff, insertRange } from './diff';
+import { runWithHost } from './host';
+import type { RendererHost } from './host';
+
+/**
+ * A renderer bound to a host
+ */
+export interface Renderer<N> {
+  // Renders or re-renders an element into a container; returns a cleanup
+  render: (element: Element, container: N) => () => void;
+}
+
+// Render state of each container
+interface RenderRoot {
+  element: Element | null;
+  owner: Owner | null;
+}
+
+/**
+ * Creates a renderer that builds and patches nodes through `host`
+ *
+ * Components, reactive bindings, control flow and keyed lists work the
+ * same as with the DOM; reactive updates keep using the host that created
+ * the nodes they patch. Portals need a `mount` node of the host.
+ */
+export function createRenderer<N>(host: RendererHost<N>): Renderer<N> {
+  const roots = new WeakMap<any, RenderRoot>();
+
+  function render(element: Element, container: N): () => void {
+    // Store current rendered element for future diffs
+    let renderRoot = roots.get(container);
+    if (!renderRoot) {
+      renderRoot = { element: null, owner: null };
+      roots.set(container, renderRoot);
+    }
+    const root = renderRoot;
+
+    runWithHost(host, () => {
+      if (!root.element) {
+        // First render
+        clearContainer(container);
+        host.prepareContainer?.(container);
+
+        // Bindings outside any component belong to the root owner
+        root.owner = createOwner();
+
+        // Mount element
+        runWithOwner(root.owner, () => mount(element, container));
+      } else {
+        // Bindings from the previous render are re-created by the diff
+        disposeOwner(root.owner!);
+
+        // Update existing tree using diff algorithm
+        const firstChild = host.firstChild(container);
+        runWithOwner(root.owner, () => {
+          if (firstChild) {
+            diff(
+              root.element,
+              element,
+              firstChild,
+              null,
+              host.namespaceOf?.(container) ?? null
+            );
+          } else {
+            // Mount from scratch if no child exists
+            mount(element, container);
+          }
+        });
+      }
+
+      // Store for future updates
+      root.element = element;
+    });
+
+    // Run onMount callbacks now that the nodes are in place
+    flushMounts();
+
+    // Return cleanup function
+    return () => {
+      if (root.element) {
+        // Run unmount callbacks and dispose component effects
+        unmountElement(root.element);
+        runWithHost(host, () => clearContainer(container));
+        disposeOwner(root.owner!);
+        root.element = null;
+      }
+    };
+  }
+
+  /**
+   * Mounts an element into an empty container
+   */
+  function mount(element: Element, container: N): void {
+    const namespace = host.namespaceOf?.(container) ?? null;
+    insertRange(container, createDOMNode(element, null, namespace));
+  }
+
+  /**
+   * Removes every child of a container
+   */
+  function clearContainer(container: N): void {
+    let child = host.firstChild(container);
+    while (child) {
+      host.remove(container, child);
+      child = host.firstChild(container);
+    }
+  }
+
+  return { render };
+}
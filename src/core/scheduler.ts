@@ -3,12 +3,57 @@
  * Implements efficient batching and prioritization
  */
 
+import { createSignal } from './reactivity';
+
 type Task = {
   id: number;
   callback: () => void;
   priority: Priority;
+  // Transition the task was scheduled in
+  transition: Transition | null;
+  // When it was queued, and when waiting for more urgent tasks must stop
+  queuedAt: number;
+  expiresAt: number;
+  // Set once the task is cancelled; it is dropped when it reaches the front
+  cancelled: boolean;
+  // Stops listening for the abort signal the task was scheduled with
+  unlisten: (() => void) | null;
 };
 
+/**
+ * Options for scheduling a task
+ */
+export interface TaskOptions {
+  // Cancels the task when aborted
+  signal?: AbortSignal;
+  // Milliseconds the task may wait before it runs ahead of more urgent
+  // tasks; defaults to the timeout of its priority
+  timeout?: number;
+}
+
+/**
+ * Counters of one priority's queue, for profiling
+ */
+export interface QueueStats {
+  // Tasks waiting now
+  pending: number;
+  completed: number;
+  cancelled: number;
+  // Tasks that waited past their expiration and were run ahead of more
+  // urgent ones
+  expired: number;
+  // Milliseconds between queueing and running
+  averageLatency: number;
+  maxLatency: number;
+}
+
+// Non-urgent updates started by `startTransition`. A transition is pending
+// while tasks scheduled in it, or renders it suspended, are outstanding.
+interface Transition {
+  pending: number;
+  onComplete: Array<() => void>;
+}
+
 // Task priority levels
 export enum Priority {
   HIGH = 0, // Critical updates (user input)
@@ -16,38 +61,213 @@ export enum Priority {
   LOW = 2, // Background/deferred work
 }
 
+/**
+ * Timing and callback primitives the scheduler runs on, so it works in
+ * browsers, on servers and in tests
+ */
+export interface SchedulerHost {
+  // Current time in milliseconds
+  now(): number;
+  // Runs a callback once the current script is done
+  queueMicrotask(callback: () => void): void;
+  // Runs a callback before the next frame is drawn
+  requestFrame(callback: () => void): void;
+  // Runs a callback in a later macrotask
+  setTimeout(callback: () => void, delay: number): void;
+  // Runs a callback when the host is idle
+  requestIdle(callback: () => void): void;
+}
+
+/**
+ * A host that only runs callbacks when told to, with a clock that moves
+ * only when advanced
+ */
+export interface ManualSchedulerHost extends SchedulerHost {
+  advance(ms: number): void;
+  // Runs requested callbacks, including ones they request, until none are
+  // left; timeouts run once the clock has reached them
+  runPending(): void;
+}
+
+/**
+ * The host for browsers
+ */
+export const browserSchedulerHost: SchedulerHost = {
+  now: () => performance.now(),
+  queueMicrotask: callback => queueMicrotask(callback),
+  requestFrame: callback => {
+    requestAnimationFrame(() => callback());
+  },
+  setTimeout: (callback, delay) => {
+    setTimeout(callback, delay);
+  },
+  requestIdle: callback => {
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(() => callback());
+    } else {
+      // Fallback for browsers that don't support requestIdleCallback
+      setTimeout(callback, 1);
+    }
+  },
+};
+
+/**
+ * The host for servers and other environments without frames, where a
+ * frame is a macrotask
+ */
+export const serverSchedulerHost: SchedulerHost = {
+  now: () => performance.now(),
+  queueMicrotask: callback => queueMicrotask(callback),
+  requestFrame: callback => {
+    setTimeout(callback, 0);
+  },
+  setTimeout: (callback, delay) => {
+    setTimeout(callback, delay);
+  },
+  requestIdle: callback => {
+    setTimeout(callback, 1);
+  },
+};
+
+/**
+ * Creates a host for tests that controls time and when callbacks run
+ */
+export function createManualSchedulerHost(): ManualSchedulerHost {
+  let time = 0;
+  let callbacks: Array<() => void> = [];
+  let timeouts: Array<{ callback: () => void; at: number }> = [];
+  const request = (callback: () => void) => {
+    callbacks.push(callback);
+  };
+
+  return {
+    now: () => time,
+    queueMicrotask: request,
+    requestFrame: request,
+    requestIdle: request,
+    setTimeout: (callback, delay) => {
+      timeouts.push({ callback, at: time + delay });
+    },
+    advance: ms => {
+      time += ms;
+    },
+    runPending: () => {
+      for (;;) {
+        const due = timeouts.filter(timeout => timeout.at <= time);
+        timeouts = timeouts.filter(timeout => timeout.at > time);
+        const ready = [...callbacks, ...due.map(timeout => timeout.callback)];
+        callbacks = [];
+        if (ready.length === 0) return;
+
+        for (const callback of ready) callback();
+      }
+    },
+  };
+}
+
+// Host in use, browsers' when frames are available
+let schedulerHost: SchedulerHost =
+  typeof requestAnimationFrame === 'function'
+    ? browserSchedulerHost
+    : serverSchedulerHost;
+
+/**
+ * Sets the host the scheduler runs on and returns the previous one
+ */
+export function setSchedulerHost(host: SchedulerHost): SchedulerHost {
+  const previous = schedulerHost;
+  schedulerHost = host;
+
+  // Processing requested from the previous host may never come
+  isScheduled = false;
+  if (nextPriority() !== null) {
+    isScheduled = true;
+    schedulerHost.queueMicrotask(processTaskQueue);
+  }
+  return previous;
+}
+
 // Unique task counter
 let nextTaskId = 1;
 
 // Task queues by priority
 const taskQueue: Task[][] = [[], [], []];
 
+// Queued tasks by ID, for cancelling without a search
+const tasksById = new Map<number, Task>();
+
+// Milliseconds a task may wait, by priority: HIGH tasks are always due, and
+// lower priorities are protected from starving behind a stream of them
+const timeouts = [-1, 250, 5000];
+
+// Statistics by priority, with the total latency behind the average
+const queueStats = [0, 1, 2].map(() => ({ ...emptyStats(), totalLatency: 0 }));
+
 // Scheduler state
 let isScheduled = false;
 let currentFrameDeadline = 0;
 const frameLength = 16; // ~60fps
 
+// Priority of the task running now, or set by runWithPriority
+let currentPriority: Priority | null = null;
+
+// Transition of the task running now
+let currentTransition: Transition | null = null;
+
+// Whether flushSync or flushPending is running the queues to completion
+let draining = false;
+
+// Callbacks waiting for the next frame, and how many paint callbacks
+// already had their frame
+const layoutCallbacks: Array<() => void> = [];
+const paintCallbacks: Array<() => void> = [];
+let paintedCount = 0;
+let frameRequested = false;
+
+const idleCallbacks: Array<() => void> = [];
+let idleRequested = false;
+
 /**
  * Schedules a callback with a given priority
  */
 export function scheduleTask(
   callback: () => void,
-  priority: Priority = Priority.NORMAL
+  priority: Priority = Priority.NORMAL,
+  options: TaskOptions = {}
 ): number {
+  const { signal, timeout = timeouts[priority] } = options;
+  const now = schedulerHost.now();
   const task: Task = {
     id: nextTaskId++,
     callback,
     priority,
+    transition: currentTransition,
+    queuedAt: now,
+    expiresAt: now + timeout,
+    cancelled: false,
+    unlisten: null,
   };
 
+  if (signal?.aborted) {
+    queueStats[priority].cancelled++;
+    return task.id;
+  }
+  if (signal) {
+    const abort = () => cancelTask(task.id);
+    signal.addEventListener('abort', abort, { once: true });
+    task.unlisten = () => signal.removeEventListener('abort', abort);
+  }
+  if (currentTransition) currentTransition.pending++;
+
   // Add to appropriate queue
   taskQueue[priority].push(task);
+  tasksById.set(task.id, task);
 
   // Schedule processing if not already scheduled
   if (!isScheduled) {
     isScheduled = true;
-    currentFrameDeadline = performance.now() + frameLength;
-    queueMicrotask(processTaskQueue);
+    currentFrameDeadline = schedulerHost.now() + frameLength;
+    schedulerHost.queueMicrotask(processTaskQueue);
   }
 
   return task.id;
@@ -57,82 +277,457 @@ export function scheduleTask(
  * Cancels a scheduled task by ID
  */
 export function cancelTask(taskId: number): boolean {
-  for (const queue of taskQueue) {
-    const index = queue.findIndex(task => task.id === taskId);
-    if (index >= 0) {
-      queue.splice(index, 1);
-      return true;
+  const task = tasksById.get(taskId);
+  if (!task) return false;
+
+  // The task stays queued, but is skipped
+  task.cancelled = true;
+  dequeued(task);
+  queueStats[task.priority].cancelled++;
+  if (task.transition) releaseTransition(task.transition);
+  return true;
+}
+
+/**
+ * Returns counters of each priority's queue, indexed by priority
+ */
+export function getSchedulerStats(): QueueStats[] {
+  return queueStats.map((stats, priority) => {
+    const { totalLatency: _totalLatency, ...counters } = stats;
+    return {
+      ...counters,
+      pending: taskQueue[priority].filter(task => !task.cancelled).length,
+    };
+  });
+}
+
+/**
+ * Clears the counters of the scheduler statistics
+ */
+export function resetSchedulerStats(): void {
+  for (const stats of queueStats) {
+    Object.assign(stats, emptyStats(), { totalLatency: 0 });
+  }
+}
+
+/**
+ * Returns the priority of the running task; updates made outside of any
+ * task are NORMAL
+ */
+export function getCurrentPriority(): Priority {
+  return currentPriority ?? Priority.NORMAL;
+}
+
+/**
+ * Runs a function at the given priority, so the updates it makes are
+ * scheduled at that priority
+ */
+export function runWithPriority<T>(priority: Priority, fn: () => T): T {
+  const previous = currentPriority;
+  currentPriority = priority;
+
+  try {
+    return fn();
+  } finally {
+    currentPriority = previous;
+  }
+}
+
+/**
+ * Checks whether long-running work should pause: the frame's time is up,
+ * or a task with a higher priority than the current one is waiting
+ */
+export function shouldYield(): boolean {
+  if (draining) return false;
+  if (schedulerHost.now() >= currentFrameDeadline) return true;
+
+  return hasTasksAbove(getCurrentPriority());
+}
+
+/**
+ * Runs an iterator of work units in time slices at the given priority and
+ * calls `done` with its return value after the last unit. Between units
+ * the work yields to the browser and to more urgent tasks; HIGH priority
+ * work runs to completion immediately. Returns a function that cancels the
+ * remaining units.
+ */
+export function scheduleWork<T>(
+  units: Iterator<unknown, T>,
+  done: (result: T) => void,
+  priority: Priority = getCurrentPriority(),
+  options: TaskOptions = {}
+): () => void {
+  if (options.signal?.aborted) return () => {};
+  if (priority === Priority.HIGH) {
+    let step = units.next();
+    while (!step.done) step = units.next();
+    done(step.value);
+    return () => {};
+  }
+
+  let taskId = 0;
+  let cancelled = false;
+  const cancel = () => {
+    cancelled = true;
+    options.signal?.removeEventListener('abort', cancel);
+    if (taskId) cancelTask(taskId);
+    taskId = 0;
+  };
+  options.signal?.addEventListener('abort', cancel, { once: true });
+
+  // Later slices keep the expiration of the first
+  const expiresAt =
+    schedulerHost.now() + (options.timeout ?? timeouts[priority]);
+  const slice = () => {
+    let step = units.next();
+    while (!step.done) {
+      // A unit may cancel the work it belongs to
+      if (cancelled) return;
+      if (shouldYield()) {
+        const timeout = Math.max(expiresAt - schedulerHost.now(), 0);
+        taskId = scheduleTask(slice, priority, { timeout });
+        return;
+      }
+      step = units.next();
     }
+    taskId = 0;
+    options.signal?.removeEventListener('abort', cancel);
+    done(step.value);
+  };
+
+  taskId = scheduleTask(slice, priority, options);
+  return cancel;
+}
+
+/**
+ * Marks the updates made by `fn` as non-urgent: `fn` runs in a LOW priority
+ * task once more urgent work is done, and the effects and renders it causes
+ * are part of the transition. A render in a transition that suspends keeps
+ * showing its current content until the data arrives.
+ */
+export function startTransition(fn: () => void): void {
+  runTransition(fn, null);
+}
+
+/**
+ * Creates a transition whose `isPending` signal is true from the moment
+ * `start` is called until every update it started, including suspended
+ * renders, has finished
+ */
+export function createTransition(): [
+  isPending: () => boolean,
+  start: (fn: () => void) => void,
+] {
+  const [isPending, setPending] = createSignal(false);
+  // Transitions started before the previous one finished join it
+  let active: Transition | null = null;
+
+  const start = (fn: () => void) => {
+    if (!active) {
+      active = { pending: 0, onComplete: [] };
+      active.onComplete.push(() => {
+        active = null;
+        setPending(false);
+      });
+      setPending(true);
+    }
+    runTransition(fn, active);
+  };
+
+  return [isPending, start];
+}
+
+/**
+ * Keeps the running transition pending, for a render that suspended in it.
+ * Returns a function that runs `fn`, usually a retry, in the transition and
+ * then releases it; returns null outside of transitions.
+ */
+export function holdTransition(): ((fn: () => void) => void) | null {
+  const transition = currentTransition;
+  if (!transition) return null;
+
+  transition.pending++;
+  let released = false;
+  return fn => {
+    if (released) return;
+    released = true;
+    const previous = currentTransition;
+    currentTransition = transition;
+    try {
+      runWithPriority(Priority.LOW, fn);
+    } finally {
+      currentTransition = previous;
+      releaseTransition(transition);
+    }
+  };
+}
+
+/**
+ * Returns the transition of the running task, if any
+ */
+export function getTransition(): Transition | null {
+  return currentTransition;
+}
+
+/**
+ * Schedules `fn` as a LOW priority task in a transition, a new one if none
+ * is given
+ */
+function runTransition(fn: () => void, transition: Transition | null): void {
+  const previous = currentTransition;
+  currentTransition = transition ?? { pending: 0, onComplete: [] };
+  try {
+    scheduleTask(fn, Priority.LOW);
+  } finally {
+    currentTransition = previous;
   }
-  return false;
+}
+
+/**
+ * Drops one outstanding task or suspension from a transition, completing
+ * it once none are left
+ */
+function releaseTransition(transition: Transition): void {
+  if (--transition.pending > 0) return;
+
+  const callbacks = transition.onComplete;
+  transition.onComplete = [];
+  for (const callback of callbacks) callback();
+}
+
+/**
+ * Runs `fn`, if given, and then every queued task, including tasks queued
+ * while doing so, without yielding. Returns what `fn` returns.
+ */
+export function flushSync<T>(fn?: () => T): T | undefined {
+  const result = fn?.();
+
+  const previous = draining;
+  draining = true;
+  try {
+    processTaskQueue();
+  } finally {
+    draining = previous;
+  }
+
+  // A processing request still pending from the host finds nothing to do
+  isScheduled = false;
+  return result;
+}
+
+/**
+ * Runs all queued work until none is left: tasks, and the callbacks of
+ * `afterLayout`, `afterPaint` and `scheduleIdle`. Tests and server
+ * renders use it to settle updates without waiting on the host.
+ */
+export function flushPending(): void {
+  do {
+    flushSync();
+    paintedCount = paintCallbacks.length;
+    runCallbacks(layoutCallbacks, layoutCallbacks.length);
+    runCallbacks(paintCallbacks, paintedCount);
+    paintedCount = 0;
+    runCallbacks(idleCallbacks, idleCallbacks.length);
+  } while (
+    nextPriority() !== null ||
+    layoutCallbacks.length > 0 ||
+    paintCallbacks.length > 0 ||
+    idleCallbacks.length > 0
+  );
 }
 
 /**
  * Process task queues according to priority
  */
 function processTaskQueue() {
-  const _startTime = performance.now();
+  const _startTime = schedulerHost.now();
   isScheduled = false;
 
-  // Process high priority tasks first
+  // Always run the most urgent task next, so tasks queued by a task run
+  // before less urgent ones that were already waiting
+  let task = nextTask();
+  while (task) {
+    const now = schedulerHost.now();
+    const expired = task.expiresAt <= now;
+
+    // Check time budget for tasks that are not yet due
+    if (!draining && !expired && now >= currentFrameDeadline) {
+      // Out of time, schedule continuation
+      isScheduled = true;
+      schedulerHost.requestFrame(() => {
+        currentFrameDeadline = schedulerHost.now() + frameLength;
+        schedulerHost.queueMicrotask(processTaskQueue);
+      });
+      return;
+    }
+
+    // Execute task
+    taskQueue[task.priority].shift();
+    dequeued(task);
+    recordRun(task, now, expired);
+    const previousTransition = currentTransition;
+    currentTransition = task.transition;
+    try {
+      runWithPriority(task.priority, task.callback);
+    } catch (error) {
+      console.error('Error in scheduled task:', error);
+    } finally {
+      currentTransition = previousTransition;
+    }
+    if (task.transition) releaseTransition(task.transition);
+
+    task = nextTask();
+  }
+}
+
+/**
+ * Returns the task to run next: the one that expired first among expired
+ * tasks, or else the first task of the most urgent queue
+ */
+function nextTask(): Task | null {
+  const now = schedulerHost.now();
+  let next: Task | null = null;
+
   for (let priority = Priority.HIGH; priority <= Priority.LOW; priority++) {
-    const queue = taskQueue[priority];
-
-    // Process all tasks in this priority level
-    while (queue.length > 0) {
-      // Check time budget for lower priority tasks
-      if (
-        priority !== Priority.HIGH &&
-        performance.now() >= currentFrameDeadline
-      ) {
-        // Out of time, schedule continuation
-        isScheduled = true;
-        requestAnimationFrame(() => {
-          currentFrameDeadline = performance.now() + frameLength;
-          queueMicrotask(processTaskQueue);
-        });
-        return;
-      }
+    const task = firstTask(priority);
+    if (!task) continue;
 
-      // Execute task
-      const task = queue.shift()!;
-      try {
-        task.callback();
-      } catch (error) {
-        console.error('Error in scheduled task:', error);
+    if (task.expiresAt <= now) {
+      if (!next || next.expiresAt > now || task.expiresAt < next.expiresAt) {
+        next = task;
       }
+    } else if (!next) {
+      next = task;
     }
   }
+  return next;
+}
+
+/**
+ * Returns the most urgent priority with waiting tasks
+ */
+function nextPriority(): Priority | null {
+  for (let priority = Priority.HIGH; priority <= Priority.LOW; priority++) {
+    if (firstTask(priority)) return priority;
+  }
+  return null;
+}
+
+/**
+ * Returns the first task of a queue, dropping cancelled tasks before it
+ */
+function firstTask(priority: Priority): Task | null {
+  const queue = taskQueue[priority];
+  while (queue.length > 0 && queue[0].cancelled) queue.shift();
+  return queue[0] ?? null;
+}
+
+/**
+ * Forgets a task that leaves the queue, by running or being cancelled
+ */
+function dequeued(task: Task): void {
+  tasksById.delete(task.id);
+  task.unlisten?.();
+}
+
+/**
+ * Updates the statistics of a task's queue as it starts to run
+ */
+function recordRun(task: Task, now: number, expired: boolean): void {
+  const stats = queueStats[task.priority];
+  const latency = now - task.queuedAt;
+
+  stats.completed++;
+  if (expired && task.priority !== Priority.HIGH) stats.expired++;
+  stats.totalLatency += latency;
+  stats.averageLatency = stats.totalLatency / stats.completed;
+  stats.maxLatency = Math.max(stats.maxLatency, latency);
+}
+
+/**
+ * Returns statistics with every counter at zero
+ */
+function emptyStats(): QueueStats {
+  return {
+    pending: 0,
+    completed: 0,
+    cancelled: 0,
+    expired: 0,
+    averageLatency: 0,
+    maxLatency: 0,
+  };
+}
+
+/**
+ * Checks whether tasks with a higher priority than `priority` are waiting
+ */
+function hasTasksAbove(priority: Priority): boolean {
+  for (let level = Priority.HIGH; level < priority; level++) {
+    if (firstTask(level)) return true;
+  }
+  return false;
 }
 
 /**
  * Schedule a callback to run after the browser has performed layout calculations
  */
 export function afterLayout(callback: () => void): void {
-  requestAnimationFrame(() => {
-    callback();
-  });
+  layoutCallbacks.push(callback);
+  requestFrameCallbacks();
 }
 
 /**
  * Schedule a callback to run after paint
  */
 export function afterPaint(callback: () => void): void {
-  requestAnimationFrame(() => {
-    setTimeout(callback, 0);
-  });
+  paintCallbacks.push(callback);
+  requestFrameCallbacks();
 }
 
 /**
  * Defers a task to run when the main thread is idle
  */
 export function scheduleIdle(callback: () => void): void {
-  if (typeof requestIdleCallback === 'function') {
-    requestIdleCallback(() => {
+  idleCallbacks.push(callback);
+  if (idleRequested) return;
+
+  idleRequested = true;
+  schedulerHost.requestIdle(() => {
+    idleRequested = false;
+    runCallbacks(idleCallbacks, idleCallbacks.length);
+  });
+}
+
+/**
+ * Requests a frame for layout and paint callbacks, once per frame. Paint
+ * callbacks queued by then run in a macrotask after the frame.
+ */
+function requestFrameCallbacks(): void {
+  if (frameRequested) return;
+
+  frameRequested = true;
+  schedulerHost.requestFrame(() => {
+    frameRequested = false;
+    paintedCount = paintCallbacks.length;
+    runCallbacks(layoutCallbacks, layoutCallbacks.length);
+
+    schedulerHost.setTimeout(() => {
+      const count = paintedCount;
+      paintedCount = 0;
+      runCallbacks(paintCallbacks, count);
+    }, 0);
+  });
+}
+
+/**
+ * Runs and removes the first `count` callbacks of a list
+ */
+function runCallbacks(callbacks: Array<() => void>, count: number): void {
+  for (const callback of callbacks.splice(0, count)) {
+    try {
       callback();
-    });
-  } else {
-    // Fallback for browsers that don't support requestIdleCallback
-    setTimeout(callback, 1);
+    } catch (error) {
+      console.error('Error in scheduled callback:', error);
+    }
   }
 }
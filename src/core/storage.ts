@@ -0,0 +1,91 @@
+/**
+ * Storage adapters for persisted stores
+ * Each adapter saves strings by key, like `localStorage`
+ */
+
+import type { StoreStorage } from './types';
+
+export interface MemoryStorage extends StoreStorage {
+  // Saved values, by key
+  entries(): Record<string, string>;
+  clear(): void;
+}
+
+/**
+ * Saves to `localStorage`, or nowhere where there is none, such as on the
+ * server
+ */
+export const localStorageAdapter: StoreStorage = webStorage(
+  () => globalThis.localStorage
+);
+
+/**
+ * Saves to `sessionStorage`, or nowhere where there is none
+ */
+export const sessionStorageAdapter: StoreStorage = webStorage(
+  () => globalThis.sessionStorage
+);
+
+/**
+ * Creates a storage that keeps values in memory, for tests
+ */
+export function createMemoryStorage(
+  initial: Record<string, string> = {}
+): MemoryStorage {
+  const values = new Map(Object.entries(initial));
+
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: key => {
+      values.delete(key);
+    },
+    entries: () => Object.fromEntries(values),
+    clear: () => values.clear(),
+  };
+}
+
+/**
+ * Creates a storage that saves each key to a JSON file in `directory`, for
+ * Bun servers
+ */
+export function createFileStorage(directory: string): StoreStorage {
+  const file = (key: string) =>
+    Bun.file(`${directory}/${encodeURIComponent(key)}.json`);
+
+  return {
+    async getItem(key) {
+      const saved = file(key);
+      return (await saved.exists()) ? saved.text() : null;
+    },
+    async setItem(key, value) {
+      await Bun.write(file(key), value);
+    },
+    async removeItem(key) {
+      const saved = file(key);
+      if (await saved.exists()) await saved.delete();
+    },
+  };
+}
+
+/**
+ * Wraps a Web Storage object that may be missing or throw when accessed
+ */
+function webStorage(get: () => Storage | undefined): StoreStorage {
+  const storage = () => {
+    try {
+      return get() ?? null;
+    } catch {
+      // Storage is blocked, for example by privacy settings
+      return null;
+    }
+  };
+
+  return {
+    getItem: key => storage()?.getItem(key) ?? null,
+    setItem: (key, value) => storage()?.setItem(key, value),
+    removeItem: key => storage()?.removeItem(key),
+  };
+}
@@ -1,47 +1,774 @@
 /**
  * State management for Helix
  * Global state with fine-grained reactivity
+ *
+ * A store wraps plain objects and arrays in read-only proxies. Every
+ * property of every nested object is its own reactive node, created the
+ * first time it is read, so an update only notifies readers of the paths
+ * it changed.
  */
 
-import { createSignal } from './reactivity';
+import { persistence } from './middleware';
+import { batch, createSignal } from './reactivity';
+import { localStorageAdapter } from './storage';
+import type {
+  PersistOptions,
+  SetStoreFunction,
+  Store,
+  StoreMiddleware,
+  StoreOptions,
+  StorePatch,
+  StorePathPart,
+  StoreUpdate,
+} from './types';
+
+// A reactive node: reading tracks it, writing notifies its readers
+type StoreNode = [track: () => void, notify: () => void];
+
+// Node of each object that tracks which keys it has
+const KEYS = Symbol('store keys');
+
+// Raw object behind each proxy, and proxy of each raw object
+const RAW = Symbol('store raw');
+const proxies = new WeakMap<object, any>();
+
+// Reactive nodes of each raw object, by property
+const nodes = new WeakMap<object, Map<PropertyKey, StoreNode>>();
+
+// Writes of the update in progress, or null outside of one
+let changes: StorePatch[] | null = null;
+
+// Mutable drafts handed to `produce` recipes, by raw object
+const drafts = new WeakMap<object, any>();
+
+const draftTraps: ProxyHandler<any> = {
+  get(target, property, receiver) {
+    if (property === RAW) return target;
+
+    const value = Reflect.get(target, property, receiver);
+    return typeof property === 'symbol' ? value : draft(value);
+  },
+
+  set(target, property, value) {
+    setProperty(target, property, value);
+    return true;
+  },
+
+  deleteProperty(target, property) {
+    setProperty(target, property, undefined);
+    return true;
+  },
+};
+
+const proxyTraps: ProxyHandler<any> = {
+  get(target, property, receiver) {
+    if (property === RAW) return target;
+
+    const value = Reflect.get(target, property, receiver);
+
+    // Methods and built-in symbols are not state
+    if (typeof property === 'symbol' || typeof value === 'function') {
+      return value;
+    }
+
+    getNode(target, property)[0]();
+    return wrap(value);
+  },
+
+  has(target, property) {
+    if (property === RAW) return true;
+
+    getNode(target, property)[0]();
+    return property in target;
+  },
+
+  ownKeys(target) {
+    getNode(target, KEYS)[0]();
+    return Reflect.ownKeys(target);
+  },
+
+  set(_target, property) {
+    console.warn(
+      `Cannot set "${String(property)}" on a store directly; use setState`
+    );
+    return true;
+  },
+
+  deleteProperty(_target, property) {
+    console.warn(
+      `Cannot delete "${String(property)}" from a store directly; use setState`
+    );
+    return true;
+  },
+};
 
 /**
  * Creates a store for global state management
+ *
+ * `state` is a read-only, deeply reactive view of the data. `setState`
+ * takes a path of keys followed by a value or an updater function; a key
+ * may also be an array of keys or, for arrays, a filter function. Setting
+ * `undefined` deletes the key.
+ *
+ * ```ts
+ * setState('cart', 'items', 3, 'qty', qty => qty + 1);
+ * setState('todos', todo => todo.done, 'hidden', true);
+ * setState({ filter: 'all' }); // merges into the root
+ * ```
+ *
+ * The store works on a deep copy of `initialState`, so stores created from
+ * the same object don't share state and the object stays as it was. Objects
+ * passed to setState become part of the state as they are.
+ *
+ * Every setState and action call passes through `options.middleware`. An
+ * update a middleware throws from is reverted. With `options.persist`, the
+ * state is saved after updates and restored when the store is created.
+ * The setState calls made before asynchronous storage restores it,
+ * including those of actions, are replayed on top of the restored state.
  */
-export function createStore<T extends Record<string, any>>(initialState: T) {
-  const state: Record<keyof T, ReturnType<typeof createSignal>> = {} as any;
-
-  // Create signals for each state property
-  for (const [key, value] of Object.entries(initialState)) {
-    state[key as keyof T] = createSignal(value);
-  }
+export function createStore<T extends Record<string, any>>(
+  initialState: T,
+  options: StoreOptions<T> = {}
+): Store<T> {
+  const root = copyState(initialState);
+  const state = wrap(root) as T;
 
   // Store accessor and updater
   const getState = <K extends keyof T>(key: K): T[K] => {
-    return (state[key][0] as () => T[K])();
+    return state[key];
+  };
+
+  // Call the update being dispatched was made from
+  const middleware = [...(options.middleware ?? [])];
+  let current: StoreUpdate<T> | undefined;
+
+  // Persisted stores save once the saved state has been restored, so they
+  // don't overwrite it first
+  const { persist } = options;
+  let restored = !persist;
+  // Calls made before then, with the writes they made
+  let early: Array<{ replay: () => void; patches: StorePatch[] }> | null =
+    persist ? [] : null;
+  // Arguments of the setState calls made by the call being recorded
+  let recording: any[][] | null = null;
+  if (persist) {
+    const { version = 0, include } = persist;
+    const save = persistence<T>({
+      key: persist.key,
+      storage: persist.storage ?? localStorageAdapter,
+      serialize: state =>
+        JSON.stringify({ version, state: pick(state, include) }),
+    });
+    middleware.unshift((update, next) =>
+      restored ? save(update, next) : next()
+    );
+  }
+
+  // Passes an update through the middleware, then applies its arguments
+  const dispatch = (
+    type: StoreUpdate<T>['type'],
+    name: string | undefined,
+    args: any[],
+    apply: (args: any[]) => any
+  ): any => {
+    const original = [...args];
+    let log: StorePatch[] = [];
+    let start = 0;
+    const update: StoreUpdate<T> = {
+      type,
+      name,
+      args,
+      parent: current,
+      store,
+      get patches() {
+        return log.slice(start);
+      },
+    };
+    const run = (index: number): any =>
+      index < middleware.length
+        ? middleware[index](update, () => run(index + 1))
+        : apply(update.args);
+
+    return transaction(() => {
+      log = changes!;
+      start = log.length;
+      current = update;
+      const recorded = early && !update.parent ? [] : null;
+      if (recorded) recording = recorded;
+      try {
+        const result = run(0);
+        if (recording && type === 'setState' && !insideSetState(update)) {
+          recording.push(original);
+        }
+        if (recorded) {
+          early!.push({
+            replay: () => replay(type, name, original, recorded),
+            patches: update.patches,
+          });
+        }
+        return result;
+      } finally {
+        if (recorded) recording = null;
+        current = update.parent;
+      }
+    });
   };
 
-  const setState = <K extends keyof T>(
-    key: K,
-    value: T[K] | ((prev: T[K]) => T[K])
-  ): void => {
-    const setter = state[key][1] as (v: T[K] | ((prev: T[K]) => T[K])) => void;
-    setter(value);
+  // Makes a call again from the setState calls it made, so an action's
+  // body and its side effects don't run twice
+  const replay = (
+    type: StoreUpdate<T>['type'],
+    name: string | undefined,
+    args: any[],
+    calls: any[][]
+  ) => {
+    const run = () => calls.forEach(call => (setState as any)(...call));
+    if (type === 'action') {
+      dispatch(type, name, args, run);
+    } else {
+      run();
+    }
+  };
+
+  // Undoes the calls made before the saved state was restored, applies it
+  // without saving it again, then replays them on top of it
+  const finishRestore = (saved?: Partial<T>) => {
+    const calls = early ?? [];
+    early = null;
+    batch(() => {
+      revert(calls.flatMap(call => call.patches));
+      try {
+        if (saved !== undefined) setState(saved);
+      } finally {
+        restored = true;
+        for (const call of calls) {
+          try {
+            call.replay();
+          } catch (error) {
+            console.error(
+              `Error replaying update of store "${persist!.key}":`,
+              error
+            );
+          }
+        }
+      }
+    });
+  };
+
+  const setState = ((...args: any[]) => {
+    dispatch('setState', undefined, args, args => {
+      if (args.length === 1) {
+        // Merge an object, or the object returned by an updater, into the root
+        const value = unwrap(resolve(args[0], state));
+        for (const key of Object.keys(value ?? {})) {
+          setProperty(root, key, value[key]);
+        }
+      } else {
+        updatePath(root, args.slice(0, -1), args[args.length - 1], []);
+      }
+    });
+  }) as SetStoreFunction<T>;
+
+  // Actions system: each action call passes through the middleware too
+  const createActions = <A>(actionDefinitions: (store: Store<T>) => A): A => {
+    const actions: any = actionDefinitions(store);
+    for (const name of Object.keys(actions)) {
+      const action = actions[name];
+      if (typeof action !== 'function') continue;
+
+      actions[name] = (...args: any[]) =>
+        dispatch('action', name, args, args => action.apply(actions, args));
+    }
+    return actions;
   };
 
-  // Actions system
-  const createActions = <A extends Record<string, (payload: any) => void>>(
-    actionDefinitions: (store: {
-      getState: typeof getState;
-      setState: typeof setState;
-    }) => A
-  ): A => {
-    return actionDefinitions({ getState, setState });
+  // Adds middleware around the others, returning a function to remove it
+  const use = (added: StoreMiddleware<T>) => {
+    middleware.unshift(added);
+    return () => {
+      const index = middleware.indexOf(added);
+      if (index !== -1) middleware.splice(index, 1);
+    };
   };
 
-  return {
+  const store: Store<T> = {
+    state,
     getState,
     setState,
     createActions,
+    use,
+    ready: Promise.resolve(),
+  };
+  if (persist) {
+    store.ready = restore(persist, finishRestore);
+  }
+  return store;
+}
+
+/**
+ * Deeply copies the plain objects and arrays of a value, unwrapping store
+ * proxies; other objects, like dates, are kept as they are
+ */
+function copyState<T>(value: T, copies = new Map<object, any>()): T {
+  const raw = (value as any)?.[RAW] ?? value;
+  if (!isWrappable(raw)) return raw;
+  if (copies.has(raw)) return copies.get(raw);
+
+  const copy: any = Array.isArray(raw)
+    ? []
+    : Object.create(Object.getPrototypeOf(raw));
+  copies.set(raw, copy);
+  for (const key of Object.keys(raw)) {
+    copy[key] = copyState((raw as any)[key], copies);
+  }
+  return copy;
+}
+
+/**
+ * Checks whether an update was made by a setState call, such as one a
+ * middleware makes while handling it
+ */
+function insideSetState(update: StoreUpdate<any>): boolean {
+  for (let parent = update.parent; parent; parent = parent.parent) {
+    if (parent.type === 'setState') return true;
+  }
+  return false;
+}
+
+/**
+ * Returns the plain data behind a store value, unwrapping proxies nested
+ * in new objects and arrays in place
+ */
+export function unwrap<T>(value: T, seen = new Set<any>()): T {
+  const raw = (value as any)?.[RAW];
+  if (raw) return raw;
+  if (!isWrappable(value) || seen.has(value)) return value;
+
+  seen.add(value);
+  for (const key of Object.keys(value)) {
+    const item = (value as any)[key];
+    const unwrapped = unwrap(item, seen);
+    if (unwrapped !== item) (value as any)[key] = unwrapped;
+  }
+  return value;
+}
+
+/**
+ * Returns an updater that applies mutation-style edits to a store value.
+ * Only the properties the recipe changes notify their readers.
+ *
+ * ```ts
+ * setState('cart', 'items', produce(items => {
+ *   items.push({ name: 'pear', qty: 1 });
+ *   items[0].qty++;
+ * }));
+ * ```
+ */
+export function produce<T>(recipe: (draft: T) => void): (state: T) => T {
+  return state => {
+    const raw = unwrap(state);
+    if (isWrappable(raw)) recipe(draft(raw));
+    return raw;
+  };
+}
+
+/**
+ * Returns an updater that diffs new data into a store value. Objects are
+ * updated in place rather than replaced, and array items are matched by
+ * `key` (`'id'` by default) or, without one, by position, so readers of
+ * unchanged items are not notified.
+ *
+ * ```ts
+ * setState('todos', reconcile(await fetchTodos()));
+ * ```
+ */
+export function reconcile<T>(
+  value: T,
+  options: { key?: string | null } = {}
+): (state: T) => T {
+  const key = options.key === undefined ? 'id' : options.key;
+  return state => applyState(unwrap(state), unwrap(value), key);
+}
+
+/**
+ * Reads a persisted store's saved state and migrates it, passing it to
+ * `done`, or nothing if there is none to restore. Storage that returns
+ * promises restores it asynchronously.
+ */
+function restore<T>(
+  options: PersistOptions<T>,
+  done: (state?: Partial<T>) => void
+): Promise<void> {
+  const { key, storage = localStorageAdapter, version = 0 } = options;
+
+  const apply = (saved: string | null) => {
+    if (saved == null) return done();
+
+    const { state, version: savedVersion = 0 } = JSON.parse(saved);
+    if (
+      savedVersion > version ||
+      (savedVersion < version && !options.migrate)
+    ) {
+      console.warn(
+        `Ignoring state of store "${key}" saved by version ${savedVersion}`
+      );
+      return done();
+    }
+    done(pick(migrateState(state, savedVersion, options), options.include));
+  };
+
+  const fail = (error: unknown) => {
+    done();
+    console.error(`Error restoring store "${key}":`, error);
+  };
+
+  try {
+    const saved = storage.getItem(key);
+    if (saved != null && typeof saved !== 'string') {
+      return saved.then(apply).catch(fail);
+    }
+    apply(saved);
+  } catch (error) {
+    fail(error);
+  }
+  return Promise.resolve();
+}
+
+/**
+ * Upgrades saved state to the current version
+ */
+function migrateState<T>(
+  state: any,
+  from: number,
+  options: PersistOptions<T>
+): any {
+  const { migrate, version = 0 } = options;
+  if (from === version || !migrate) return state;
+  if (typeof migrate === 'function') return migrate(state, from);
+
+  for (let step = from + 1; step <= version; step++) {
+    if (migrate[step]) state = migrate[step](state);
+  }
+  return state;
+}
+
+/**
+ * Returns the persisted keys of a state
+ */
+function pick(state: any, include?: PropertyKey[]): any {
+  if (!include || !isWrappable(state)) return state;
+
+  const picked: Record<PropertyKey, unknown> = {};
+  for (const key of include) {
+    if (key in state) picked[key] = (state as any)[key];
+  }
+  return picked;
+}
+
+/**
+ * Runs an update in a batch, reverting its writes if it throws
+ */
+function transaction<R>(fn: () => R): R {
+  const outer = changes;
+  const log = outer ?? [];
+  const start = log.length;
+
+  changes = log;
+  try {
+    return batch(() => {
+      try {
+        return fn();
+      } catch (error) {
+        changes = null;
+        revert(log.splice(start));
+        throw error;
+      }
+    });
+  } finally {
+    changes = outer;
+  }
+}
+
+/**
+ * Undoes writes, newest first
+ */
+function revert(log: StorePatch[]): void {
+  for (let index = log.length - 1; index >= 0; index--) {
+    applyPatch(log[index], true);
+  }
+}
+
+/**
+ * Writes a patch's new value, or its previous one in `reverse`
+ */
+function applyPatch(patch: StorePatch, reverse: boolean): void {
+  const { target, key } = patch;
+  const exists = reverse ? patch.had : patch.has;
+  // Array items that don't exist come and go with the length
+  if (exists || !Array.isArray(target)) {
+    setProperty(
+      target,
+      key,
+      exists ? (reverse ? patch.previous : patch.value) : undefined
+    );
+  }
+}
+
+/**
+ * Returns an updater that writes the patches of an earlier update again,
+ * or undoes them in `reverse`. Patches only apply to the store that made
+ * them, and only in the order they were made.
+ */
+export function applyPatches<T>(
+  patches: StorePatch[],
+  reverse = false
+): (state: T) => T {
+  return state => {
+    const ordered = reverse ? [...patches].reverse() : patches;
+    ordered.forEach(patch => applyPatch(patch, reverse));
+    return unwrap(state);
   };
 }
+
+/**
+ * Applies a value at the end of a path, expanding key lists and filters
+ */
+function updatePath(
+  target: any,
+  path: StorePathPart[],
+  value: any,
+  traversed: PropertyKey[]
+): void {
+  const [part, ...rest] = path;
+
+  let keys: PropertyKey[];
+  if (Array.isArray(part)) {
+    keys = part;
+  } else if (typeof part === 'function') {
+    if (!Array.isArray(target)) {
+      throw new Error(
+        `Cannot filter non-array store value at ${describePath(traversed)}`
+      );
+    }
+    const items = wrap(target) as any[];
+    keys = [];
+    items.forEach((item, index) => {
+      if (part(item, index)) keys.push(index);
+    });
+  } else {
+    keys = [part];
+  }
+
+  for (const key of keys) {
+    if (rest.length === 0) {
+      setProperty(target, key, resolve(value, wrap(target[key])));
+      continue;
+    }
+
+    const next = target[key];
+    if (!isWrappable(next)) {
+      throw new Error(
+        `Cannot set a path below ${describePath([...traversed, key])}, which is not an object`
+      );
+    }
+    updatePath(next, rest, value, [...traversed, key]);
+  }
+}
+
+/**
+ * Merges `next` into the raw value `target`, keeping the objects whose
+ * identity matches, and returns what the property should hold
+ */
+function applyState(target: any, next: any, key: string | null): any {
+  if (
+    !isWrappable(target) ||
+    !isWrappable(next) ||
+    Array.isArray(target) !== Array.isArray(next) ||
+    !sameKey(target, next, key)
+  ) {
+    return next;
+  }
+
+  const source: any = next;
+  if (Array.isArray(target)) {
+    // Previous items by key, so moved items keep their identity
+    const previous = [...target];
+    const byKey = new Map<any, any>();
+    for (const item of previous) {
+      if (hasKey(item, key)) byKey.set(item[key!], item);
+    }
+
+    source.forEach((item: any, index: number) => {
+      const match = hasKey(item, key) ? byKey.get(item[key!]) : previous[index];
+      setProperty(target, index, applyState(match, item, key));
+    });
+    setProperty(target, 'length', source.length);
+    return target;
+  }
+
+  for (const property of Object.keys(source)) {
+    setProperty(
+      target,
+      property,
+      applyState((target as any)[property], source[property], key)
+    );
+  }
+  for (const property of Object.keys(target)) {
+    if (!(property in source)) setProperty(target, property, undefined);
+  }
+  return target;
+}
+
+/**
+ * Checks whether a value is an object with a `key` property
+ */
+function hasKey(value: any, key: string | null): boolean {
+  return key !== null && isWrappable(value) && key in value;
+}
+
+/**
+ * Checks whether two objects are the same item by their `key` property
+ */
+function sameKey(a: any, b: any, key: string | null): boolean {
+  if (!hasKey(a, key) || !hasKey(b, key)) return true;
+  return a[key!] === b[key!];
+}
+
+/**
+ * Sets or deletes one property of a raw object, notifying the readers of
+ * that property, and of the object's keys when they changed
+ */
+function setProperty(target: any, property: PropertyKey, value: any): void {
+  // Proxies see array indices as strings
+  const key = typeof property === 'number' ? String(property) : property;
+  const next = unwrap(value);
+  const had = Object.prototype.hasOwnProperty.call(target, key);
+  if (had ? target[key] === next : next === undefined) return;
+
+  const length = Array.isArray(target) ? target.length : 0;
+  const previous = target[key];
+  // Items a shorter length cuts off, which reverting must restore
+  const removed =
+    changes && key === 'length' && next < length ? target.slice(next) : [];
+  if (next === undefined && !Array.isArray(target)) {
+    delete target[key];
+  } else {
+    target[key] = next;
+  }
+
+  // Record the write as a patch, so the update can be reverted or replayed
+  if (changes) {
+    const has = Object.prototype.hasOwnProperty.call(target, key);
+    changes.push({ target, key, had, previous, has, value: next });
+    if (Array.isArray(target) && key !== 'length' && target.length !== length) {
+      changes.push({
+        target,
+        key: 'length',
+        had: true,
+        previous: length,
+        has: true,
+        value: target.length,
+      });
+    }
+    removed.forEach((item: any, index: number) => {
+      changes!.push({
+        target,
+        key: String(next + index),
+        had: true,
+        previous: item,
+        has: false,
+        value: undefined,
+      });
+    });
+  }
+
+  const objectNodes = nodes.get(target);
+  if (!objectNodes) return;
+
+  objectNodes.get(key)?.[1]();
+  if (had !== Object.prototype.hasOwnProperty.call(target, key)) {
+    objectNodes.get(KEYS)?.[1]();
+  }
+  if (Array.isArray(target) && target.length !== length) {
+    // Items cut off by a shorter length are gone too
+    for (let index = target.length; index < length; index++) {
+      objectNodes.get(String(index))?.[1]();
+    }
+    if (key !== 'length') objectNodes.get('length')?.[1]();
+    objectNodes.get(KEYS)?.[1]();
+  }
+}
+
+/**
+ * Returns a mutable draft of a raw object, whose writes go through
+ * `setProperty`
+ */
+function draft<T>(value: T): T {
+  if (!isWrappable(value)) return value;
+
+  let proxy = drafts.get(value);
+  if (!proxy) {
+    proxy = new Proxy(value, draftTraps);
+    drafts.set(value, proxy);
+  }
+  return proxy;
+}
+
+/**
+ * Returns the proxy for a plain object or array, and other values as they are
+ */
+function wrap<T>(value: T): T {
+  if (!isWrappable(value)) return value;
+
+  let proxy = proxies.get(value);
+  if (!proxy) {
+    proxy = new Proxy(value, proxyTraps);
+    proxies.set(value, proxy);
+  }
+  return proxy;
+}
+
+/**
+ * Returns the reactive node of a raw object's property, creating it on
+ * first use
+ */
+function getNode(target: object, property: PropertyKey): StoreNode {
+  let objectNodes = nodes.get(target);
+  if (!objectNodes) {
+    objectNodes = new Map();
+    nodes.set(target, objectNodes);
+  }
+
+  let node = objectNodes.get(property);
+  if (!node) {
+    const [track, notify] = createSignal(undefined, { equals: false });
+    node = [track, () => notify(undefined)];
+    objectNodes.set(property, node);
+  }
+  return node;
+}
+
+/**
+ * Checks whether a value is a plain object or array, which stores wrap
+ */
+function isWrappable(value: any): value is object {
+  if (value == null || typeof value !== 'object') return false;
+  if (Array.isArray(value)) return true;
+
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Resolves a value or an updater of the previous value
+ */
+function resolve(value: any, previous: any): any {
+  return typeof value === 'function' ? value(previous) : value;
+}
+
+/**
+ * Formats a store path for error messages
+ */
+function describePath(path: PropertyKey[]): string {
+  return path.length > 0 ? `"${path.map(String).join('.')}"` : 'the root';
+}
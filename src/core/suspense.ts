@@ -0,0 +1,85 @@
+/**
+ * Suspense for Helix
+ * A component suspends by throwing a promise while it renders, like `lazy`
+ * components and suspense resources do before their data has arrived
+ */
+
+import { h } from './component';
+import {
+  createContext,
+  createSignal,
+  getOwner,
+  runWithOwner,
+} from './reactivity';
+import type { Owner } from './reactivity';
+import { getTransition, holdTransition } from './scheduler';
+import type { Element } from './types';
+
+// Boundary that renders below it report suspensions to
+interface SuspenseBoundary {
+  suspend(promise: PromiseLike<unknown>): void;
+}
+
+const SuspenseContext = createContext<SuspenseBoundary | null>(null);
+
+/**
+ * Shows `fallback` while any component inside it is suspended, then
+ * renders its children again once every promise has settled
+ */
+export function Suspense(props: { fallback?: any; children?: any }): Element {
+  // Promises the boundary is still waiting for
+  const [waiting, setWaiting] = createSignal(0);
+  const settle = () => setWaiting(count => count - 1);
+
+  const boundary: SuspenseBoundary = {
+    suspend(promise) {
+      setWaiting(count => count + 1);
+      promise.then(settle, settle);
+    },
+  };
+
+  return h(SuspenseContext.Provider, { value: boundary }, () =>
+    waiting() > 0 ? props.fallback : props.children
+  );
+}
+
+/**
+ * Handles a value thrown by a render. Returns true if it was a promise that
+ * is taken care of:
+ * - in a transition, content already on screen stays and `retry` runs in
+ *   the transition once the promise settles; new content rethrows, so the
+ *   re-render that created it keeps its content instead
+ * - otherwise the nearest `Suspense` boundary shows its fallback
+ */
+export function handleSuspense(
+  thrown: unknown,
+  rendered: boolean,
+  retry: () => void,
+  owner: Owner | null = getOwner()
+): boolean {
+  if (!isPromiseLike(thrown)) return false;
+
+  if (getTransition()) {
+    if (!rendered) return false;
+
+    const hold = holdTransition()!;
+    thrown.then(
+      () => hold(retry),
+      () => hold(retry)
+    );
+    return true;
+  }
+
+  const boundary = runWithOwner(owner, () => SuspenseContext.use());
+  if (!boundary) return false;
+
+  boundary.suspend(thrown);
+  return true;
+}
+
+/**
+ * Checks whether a thrown value is a promise
+ */
+function isPromiseLike(value: any): value is PromiseLike<unknown> {
+  return value != null && typeof value.then === 'function';
+}
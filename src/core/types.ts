@@ -2,24 +2,53 @@
  * Type definitions for Helix
  */
 
+import type { Owner } from './reactivity';
+
 export interface Element {
   type: string | ((...args: any[]) => any);
   props: Record<string, any>;
   children: Array<Element | string | number | boolean | null>;
   key?: string | number;
   rendered?: Element;
+  // Instance of a component element, carried over to the next element on diff
+  instance?: MountedComponent;
 }
 
+/**
+ * A rendered component instance, tracked from first render to unmount
+ */
 export interface MountedComponent {
   element: Element;
-  node: HTMLElement | Text;
+  // First DOM node rendered by the component
+  node: Node | null;
+  // onUnmount callbacks and cleanups returned by onMount callbacks
   cleanup: Array<() => void>;
   children: Array<MountedComponent>;
+  parent: MountedComponent | null;
+  // Owner for effects and context created while rendering
+  owner: Owner;
+  // onMount callbacks waiting for the DOM to be inserted
+  mountCallbacks: Array<() => void | (() => void)>;
+  // Disposes the computation that re-renders the instance on reactive reads
+  stopRendering: (() => void) | null;
+  mounted: boolean;
+  disposed: boolean;
+}
+
+export interface SignalOptions<T> {
+  // `false` notifies on every write; a function decides when values are equal
+  equals?: false | ((prev: T, next: T) => boolean);
+  // Debug name shown by devtools and in error messages
+  name?: string;
 }
 
-export type Component<Props = Record<string, never>> = (props: Props) => Element | null;
+export type Component<Props = Record<string, never>> = (
+  props: Props
+) => Element | null;
 
 export interface Context<T> {
+  id: symbol;
+  defaultValue: T;
   Provider: Component<{ value: T; children: any }>;
   use: () => T;
 }
@@ -31,10 +60,90 @@ export interface Resource<T> {
 }
 
 export interface Store<T> {
+  // Read-only, deeply reactive view of the state
+  state: T;
   getState: <K extends keyof T>(key: K) => T[K];
-  setState: <K extends keyof T>(
-    key: K,
-    value: T[K] | ((prev: T[K]) => T[K])
-  ) => void;
+  setState: SetStoreFunction<T>;
   createActions: <A>(fn: (store: Store<T>) => A) => A;
+  // Adds middleware that runs before the others
+  use: (middleware: StoreMiddleware<T>) => () => void;
+  // Resolves once persisted state has been restored
+  ready: Promise<void>;
+}
+
+// A step of a store path: a key, several keys, or a filter of array items
+export type StorePathPart =
+  | PropertyKey
+  | PropertyKey[]
+  | ((item: any, index: number) => boolean);
+
+export interface StoreOptions<T> {
+  // Runs around every setState and action call, in order
+  middleware?: StoreMiddleware<T>[];
+  // Saves the state, and restores it when the store is created
+  persist?: PersistOptions<T>;
+}
+
+export interface PersistOptions<T> {
+  // Key the state is saved under
+  key: string;
+  // Defaults to `localStorage`
+  storage?: StoreStorage;
+  // Version of the saved state's shape, 0 by default
+  version?: number;
+  // Upgrades state saved by an older version: one function of the state and
+  // its version, or a step per version that upgrades from the one before
+  migrate?:
+    | ((state: any, version: number) => any)
+    | Record<number, (state: any) => any>;
+  // Top-level keys to save, all by default
+  include?: Array<keyof T>;
+}
+
+// A setState or action call passing through store middleware
+export interface StoreUpdate<T> {
+  type: 'setState' | 'action';
+  // Name of the action
+  name?: string;
+  // Arguments of the call, which middleware may replace before `next`
+  args: any[];
+  // Call this one was made from, such as the action calling setState
+  parent?: StoreUpdate<T>;
+  store: Store<T>;
+  // Writes the update has made so far, including those of nested updates
+  readonly patches: StorePatch[];
+}
+
+// One property write of a store update
+export interface StorePatch {
+  // Raw object written to
+  target: any;
+  key: PropertyKey;
+  // Whether the property existed before the write, and its value
+  had: boolean;
+  previous: any;
+  // Whether it exists after the write, and its value
+  has: boolean;
+  value: any;
+}
+
+// Passes an update on by calling `next`, which returns the call's result,
+// or vetoes it by not calling `next`. Throwing reverts the update.
+export type StoreMiddleware<T = any> = (
+  update: StoreUpdate<T>,
+  next: () => any
+) => any;
+
+// Where persisted stores are saved, shaped like `localStorage`
+export interface StoreStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface SetStoreFunction<T> {
+  <K extends keyof T>(key: K, value: T[K] | ((prev: T[K]) => T[K])): void;
+  // Merges into the root, adding keys that are missing
+  (value: Partial<T> | ((state: T) => Partial<T>)): void;
+  (...path: [StorePathPart, StorePathPart, ...any[]]): void;
 }
@@ -8,15 +8,34 @@ export {
   createSignal,
   createEffect,
   createMemo,
+  createRoot,
+  onCleanup,
+  batch,
+  untrack,
+  on,
   createResource,
   createContext,
+  mapArray,
+  indexArray,
 
   // Components
   h,
+  For,
+  Index,
+  Show,
+  Switch,
+  Match,
+  Dynamic,
+  Portal,
 
   // Rendering
   render,
   renderToString,
+  createRenderer,
+  domHost,
+  memoryHost,
+  createMemoryNode,
+  serializeMemoryNode,
 
   // Lifecycle
   onMount,
@@ -27,10 +46,37 @@ export {
 
   // State management
   createStore,
+  unwrap,
+  produce,
+  reconcile,
+  logger,
+  validator,
+  persistence,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createMemoryStorage,
+  createFileStorage,
+  applyPatches,
+  createHistory,
 
   // Scheduling
   scheduleTask,
+  cancelTask,
+  scheduleWork,
   Priority,
+  runWithPriority,
+  getCurrentPriority,
+  shouldYield,
+  startTransition,
+  createTransition,
+  flushSync,
+  flushPending,
+  setSchedulerHost,
+  browserSchedulerHost,
+  serverSchedulerHost,
+  createManualSchedulerHost,
+  getSchedulerStats,
+  resetSchedulerStats,
   afterLayout,
   afterPaint,
   scheduleIdle,
@@ -50,6 +96,8 @@ export {
   debounce,
   throttle,
   memoize,
+  isEqual,
+  shallowEqual,
   createErrorBoundary,
 
   // Testing
@@ -72,7 +120,33 @@ export { jsx, jsxs, Fragment } from './utils/jsx';
 export type { JSX } from './utils/jsx';
 
 // Export component types
-export type { Component, Element } from './core/types';
+export type {
+  Component,
+  Element,
+  Store,
+  SetStoreFunction,
+  StorePathPart,
+  StoreOptions,
+  StoreUpdate,
+  StoreMiddleware,
+  StoreStorage,
+  PersistOptions,
+  StorePatch,
+} from './core/types';
+export type { RendererHost, Renderer, MemoryNode } from './core';
+export type {
+  SchedulerHost,
+  ManualSchedulerHost,
+  TaskOptions,
+  QueueStats,
+  LoggerOptions,
+  StoreSchema,
+  PersistenceOptions,
+  MemoryStorage,
+  History,
+  HistoryEntry,
+  HistoryOptions,
+} from './core';
 
 // Version info
 export const version = '0.1.0';
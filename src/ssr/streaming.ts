@@ -2,7 +2,17 @@
  * Streaming SSR for Helix
  */
 
+import { childNamespace, elementNamespace } from '../core/namespace';
+import { renderAttributes } from '../core/props';
 import { renderToString } from '../core/render';
+import {
+  createOwner,
+  disposeOwner,
+  getOwner,
+  onCleanup,
+  runWithOwner,
+  type Owner,
+} from '../core/reactivity';
 import type { Element } from '../core/types';
 
 /**
@@ -164,11 +174,18 @@ async function renderProgressively(
     {
       promise: Promise<any>;
       element: Element;
+      owner: Owner | null;
     }
   > = new Map();
 
+  // Owner for the whole stream, so suspended boundaries still see the
+  // context of the components around them when they resume
+  const rootOwner = createOwner();
+
   // Initial render - this will capture suspense boundaries
-  const { html, boundaries } = renderWithSuspense(element);
+  const { html, boundaries } = runWithOwner(rootOwner, () =>
+    renderWithSuspense(element)
+  );
 
   // Send initial HTML with placeholders
   onChunk(html);
@@ -182,13 +199,15 @@ async function renderProgressively(
   while (suspenseBoundaries.size > 0) {
     // Create a promise for each pending boundary
     const pendingPromises = Array.from(suspenseBoundaries.entries()).map(
-      async ([id, { promise, element }]) => {
+      async ([id, { promise, element, owner }]) => {
         try {
           // Wait for the data to be ready
           await promise;
 
           // Re-render this component now that data is available
-          const renderedContent = renderToString(element);
+          const renderedContent = runWithOwner(owner, () =>
+            renderToString(element)
+          );
 
           // Send the HTML that should replace the placeholder
           onChunk(
@@ -225,6 +244,8 @@ async function renderProgressively(
     }
   }
 
+  disposeOwner(rootOwner);
+
   // Add hydration completion marker
   onChunk(
     `<script>
@@ -241,35 +262,52 @@ async function renderProgressively(
  */
 function renderWithSuspense(element: Element): {
   html: string;
-  boundaries: Array<{ id: string; promise: Promise<any>; element: Element }>;
+  boundaries: Array<{
+    id: string;
+    promise: Promise<any>;
+    element: Element;
+    owner: Owner | null;
+  }>;
 } {
   const boundaries: Array<{
     id: string;
     promise: Promise<any>;
     element: Element;
+    owner: Owner | null;
   }> = [];
 
-  function renderElement(el: Element): string {
+  function renderElement(el: any, namespace: string | null = null): string {
     try {
+      // Reactive children are read once for their current value
+      if (typeof el === 'function') {
+        return renderElement(el(), namespace);
+      }
+
+      if (el == null || typeof el === 'boolean') return '';
+
+      if (Array.isArray(el)) {
+        return el.map(child => renderElement(child, namespace)).join('');
+      }
+
+      if (typeof el !== 'object') {
+        return String(el);
+      }
+
       if (typeof el.type === 'function') {
         const Component = el.type;
-        const rendered = Component(el.props);
-        return renderElement(rendered);
+        const owner = createOwner();
+        onCleanup(() => disposeOwner(owner));
+
+        return runWithOwner(owner, () =>
+          renderElement(Component(el.props), namespace)
+        );
       }
 
       if (typeof el.type === 'string') {
         let html = `<${el.type}`;
 
         // Add attributes
-        for (const [key, value] of Object.entries(el.props)) {
-          if (key !== 'children' && key !== 'ref' && key !== 'key') {
-            if (typeof value === 'boolean' && value) {
-              html += ` ${key}`;
-            } else if (value != null && value !== false) {
-              html += ` ${key}="${String(value).replace(/"/g, '&quot;')}"`;
-            }
-          }
-        }
+        html += renderAttributes(el.props);
 
         const voidElements = new Set([
           'area',
@@ -288,24 +326,22 @@ function renderWithSuspense(element: Element): {
           'wbr',
         ]);
 
-        if (voidElements.has(el.type) && el.children.length === 0) {
+        // Elements in SVG and MathML close themselves when they are empty
+        const ns = elementNamespace(el.type, namespace);
+        const empty = el.children.length === 0 && el.props.innerHTML == null;
+        if (empty && (ns || voidElements.has(el.type))) {
           return `${html} />`;
         }
 
         html += '>';
 
-        // Add children
-        for (const child of el.children) {
-          if (child == null) continue;
-
-          if (
-            typeof child === 'string' ||
-            typeof child === 'number' ||
-            typeof child === 'boolean'
-          ) {
-            html += String(child);
-          } else {
-            html += renderElement(child);
+        // Add children, or the markup set by `innerHTML`
+        const innerHTML = el.props.innerHTML;
+        if (innerHTML != null) {
+          html += typeof innerHTML === 'function' ? innerHTML() : innerHTML;
+        } else {
+          for (const child of el.children) {
+            html += renderElement(child, childNamespace(el.type, ns));
           }
         }
 
@@ -315,17 +351,7 @@ function renderWithSuspense(element: Element): {
 
       // Fragment-like behavior
       return el.children
-        .map(child => {
-          if (child == null) return '';
-          if (
-            typeof child === 'string' ||
-            typeof child === 'number' ||
-            typeof child === 'boolean'
-          ) {
-            return String(child);
-          }
-          return renderElement(child);
-        })
+        .map((child: any) => renderElement(child, namespace))
         .join('');
     } catch (error) {
       // Check if this is a suspense boundary
@@ -338,6 +364,7 @@ function renderWithSuspense(element: Element): {
           id,
           promise: error,
           element: el,
+          owner: getOwner(),
         });
 
         // Return a placeholder
@@ -12,8 +12,3 @@ interface Window {
   __HELIX_DATA__?: Record<string, unknown>;
   __HELIX_HYDRATE__?: boolean;
 }
-
-// DOM element extension for Helix root marker
-interface HTMLElement {
-  _helixRoot?: boolean;
-}
\ No newline at end of file
@@ -122,6 +122,34 @@ export function isEqual(a: any, b: any): boolean {
   return true;
 }
 
+/**
+ * Checks if two values are equal (one level deep)
+ */
+export function shallowEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== 'object' ||
+    typeof b !== 'object'
+  ) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+
+  if (keysA.length !== keysB.length) return false;
+
+  for (const key of keysA) {
+    if (!Object.prototype.hasOwnProperty.call(b, key)) return false;
+    if (a[key] !== b[key]) return false;
+  }
+
+  return true;
+}
+
 /**
  * Creates a deferred promise
  */
@@ -6,6 +6,9 @@ import type { Element } from '../core/types';
 // Import h without a direct reference
 import '../core/component';
 
+// Suspense boundaries are part of the renderer
+export { Suspense } from '../core/suspense';
+
 /**
  * Type definition for a lazy component
  */
@@ -62,30 +65,6 @@ export function lazy<T extends (...args: any[]) => Element>(
   return LazyComponent;
 }
 
-/**
- * Suspense component for handling async content
- */
-export function Suspense({
-  fallback,
-  children,
-}: {
-  fallback: Element;
-  children: Element;
-}): Element {
-  try {
-    return children;
-  } catch (error) {
-    if (error instanceof Promise) {
-      // Use an effect to re-render when the promise resolves
-      error.then(() => {
-        // This would trigger a re-render in the real implementation
-      });
-      return fallback;
-    }
-    throw error;
-  }
-}
-
 /**
  * Utility for prefetching lazy components
  */
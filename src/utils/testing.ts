@@ -3,6 +3,7 @@
  */
 
 import { render } from '../core/render';
+import { flushPending } from '../core/scheduler';
 import type { Element } from '../core/types';
 
 /**
@@ -69,4 +70,7 @@ export async function act(callback: () => void | Promise<void>) {
   }
   // Wait for microtasks to process
   await new Promise(resolve => setTimeout(resolve, 0));
+
+  // Run updates and callbacks still waiting for a frame or a time slice
+  flushPending();
 }
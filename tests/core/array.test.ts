@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'bun:test';
+import { indexArray, mapArray } from '../../src/core/array';
+import { createRoot, createSignal, onCleanup } from '../../src/core/reactivity';
+
+describe('mapArray', () => {
+  it('maps each item once and keeps its value when the list is reordered', () => {
+    const [list, setList] = createSignal(['a', 'b', 'c']);
+    const mapped: string[] = [];
+    const rows = createRoot(() =>
+      mapArray(list, item => {
+        mapped.push(item);
+        return { item };
+      })
+    );
+    const [a, b, c] = rows();
+
+    setList(['c', 'a', 'b']);
+
+    expect(rows()).toEqual([c, a, b]);
+    expect(rows()[0]).toBe(c);
+    expect(mapped).toEqual(['a', 'b', 'c']);
+  });
+
+  it('updates the index signal of items that move', () => {
+    const [list, setList] = createSignal(['a', 'b', 'c']);
+    const rows = createRoot(() =>
+      mapArray(list, (item, index) => () => `${item}${index()}`)
+    );
+    rows();
+
+    setList(['c', 'b', 'a', 'd']);
+
+    expect(rows().map(row => row())).toEqual(['c0', 'b1', 'a2', 'd3']);
+  });
+
+  it('disposes the rows of items that leave the list', () => {
+    const [list, setList] = createSignal(['a', 'b', 'c']);
+    const disposed: string[] = [];
+    const dispose = createRoot(dispose => {
+      const rows = mapArray(list, item => {
+        onCleanup(() => disposed.push(item));
+        return item;
+      });
+      rows();
+      setList(['b']);
+      rows();
+      return dispose;
+    });
+
+    expect(disposed).toEqual(['a', 'c']);
+
+    dispose();
+    expect(disposed).toEqual(['a', 'c', 'b']);
+  });
+
+  it('matches duplicate items in order', () => {
+    const [list, setList] = createSignal(['a', 'a']);
+    let created = 0;
+    const rows = createRoot(() =>
+      mapArray(list, item => ({ item, id: created++ }))
+    );
+    const [first, second] = rows();
+
+    setList(['a', 'b', 'a']);
+
+    expect(rows()[0]).toBe(first);
+    expect(rows()[2]).toBe(second);
+    expect(created).toBe(3);
+  });
+});
+
+describe('indexArray', () => {
+  it('keeps a row per position and updates its item signal', () => {
+    const [list, setList] = createSignal(['a', 'b']);
+    let created = 0;
+    const rows = createRoot(() =>
+      indexArray(list, (item, index) => {
+        created++;
+        return () => `${index}:${item()}`;
+      })
+    );
+    const [first] = rows();
+
+    setList(['x', 'b', 'c']);
+
+    expect(rows()[0]).toBe(first);
+    expect(rows().map(row => row())).toEqual(['0:x', '1:b', '2:c']);
+    expect(created).toBe(3);
+  });
+
+  it('disposes positions past the end when the list shrinks', () => {
+    const [list, setList] = createSignal<string[] | null>(['a', 'b', 'c']);
+    const disposed: number[] = [];
+    const rows = createRoot(() =>
+      indexArray(list, (_item, index) => {
+        onCleanup(() => disposed.push(index));
+        return index;
+      })
+    );
+    rows();
+
+    setList(['a']);
+    expect(rows()).toEqual([0]);
+    expect(disposed).toEqual([1, 2]);
+
+    setList(null);
+    expect(rows()).toEqual([]);
+    expect(disposed).toEqual([1, 2, 0]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import {
+  createMemoryNode,
+  memoryHost,
+  serializeMemoryNode,
+} from '../../src/core/memory';
+import {
+  createContext,
+  createEffect,
+  createSignal,
+} from '../../src/core/reactivity';
+import { renderToString } from '../../src/core/render';
+import { createRenderer } from '../../src/core/renderer';
+import { flushSync } from '../../src/core/scheduler';
+import { createProgressiveRenderer } from '../../src/ssr/streaming';
+
+const { render } = createRenderer(memoryHost);
+
+const Theme = createContext('light');
+
+const Label = (props: { name: string }) =>
+  h('i', {}, `${props.name} ${Theme.use()}`);
+
+// Outer and inner providers, with a label under each and one outside both
+const nested = h(
+  'div',
+  {},
+  h(
+    Theme.Provider,
+    { value: 'dark' },
+    h(Label, { name: 'outer' }),
+    h(Theme.Provider, { value: 'blue' }, h(Label, { name: 'inner' }))
+  ),
+  h(Label, { name: 'none' })
+);
+const nestedMarkup =
+  '<div><i>outer dark</i><i>inner blue</i><i>none light</i></div>';
+
+describe('createContext', () => {
+  it('reads the nearest provider, which shadows outer ones', () => {
+    const root = createMemoryNode();
+    render(nested, root);
+
+    expect(serializeMemoryNode(root)).toBe(nestedMarkup);
+  });
+
+  it('updates readers when the provider renders with a new value', () => {
+    const root = createMemoryNode();
+    const seen: string[] = [];
+    const Badge = () => {
+      createEffect(() => seen.push(Theme.use()));
+      return h('b', {}, () => Theme.use());
+    };
+    const App = (props: { theme: string }) =>
+      h(Theme.Provider, { value: props.theme }, h(Badge, {}));
+
+    render(h(App, { theme: 'dark' }), root);
+    flushSync();
+    render(h(App, { theme: 'blue' }), root);
+    flushSync();
+
+    expect(serializeMemoryNode(root)).toBe('<b>blue</b>');
+    expect(seen.at(-1)).toBe('blue');
+  });
+
+  it('updates readers when a reactive child renders the provider', () => {
+    const root = createMemoryNode();
+    const [theme, setTheme] = createSignal('dark');
+    render(
+      h('div', {}, () =>
+        h(Theme.Provider, { value: theme() }, h(Label, { name: 'app' }))
+      ),
+      root
+    );
+
+    flushSync(() => setTheme('blue'));
+
+    expect(serializeMemoryNode(root)).toBe('<div><i>app blue</i></div>');
+  });
+});
+
+describe('context on the server', () => {
+  it('reaches components rendered to a string', () => {
+    expect(renderToString(nested)).toBe(nestedMarkup);
+  });
+
+  it('reaches streamed components, including suspended ones', async () => {
+    let ready = false;
+    const loading = Promise.resolve().then(() => {
+      ready = true;
+    });
+    const Late = () => {
+      if (!ready) throw loading;
+      return h(Label, { name: 'late' });
+    };
+
+    const html = await new Response(
+      createProgressiveRenderer(
+        h(
+          Theme.Provider,
+          { value: 'dark' },
+          h(Label, { name: 'early' }),
+          h(Late, {})
+        )
+      )
+    ).text();
+
+    expect(html).toContain('<i>early dark</i>');
+    expect(html).toContain('<i>late dark</i>');
+  });
+});
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import { render } from '../../src/core/render';
+import { createContainer, resetStats, stats } from '../helpers/dom';
+
+const ROWS = 1000;
+
+const range = (length: number) => Array.from({ length }, (_, i) => i + 1);
+
+const list = (keys: number[]) =>
+  h('ul', {}, ...keys.map(key => h('li', { key }, String(key))));
+
+let container: any;
+
+// Renders `from`, then measures the DOM operations needed to reach `to`
+function update(from: number[], to: number[]) {
+  render(list(from), container);
+  const before = new Map<string, any>(
+    rows().map(row => [row.textContent, row])
+  );
+
+  resetStats();
+  render(list(to), container);
+
+  const reused = rows().filter(row => before.get(row.textContent) === row);
+  return { ...stats, reused: reused.length };
+}
+
+function rows(): any[] {
+  return container.firstChild.childNodes;
+}
+
+function order(): number[] {
+  return rows().map(row => Number(row.textContent));
+}
+
+beforeEach(() => {
+  container = createContainer();
+});
+
+describe('keyed updateChildren', () => {
+  it('reverses a list with one move per row but the last', () => {
+    const keys = range(ROWS);
+    const result = update(keys, [...keys].reverse());
+
+    expect(order()).toEqual([...keys].reverse());
+    expect(result).toEqual({
+      inserts: 0,
+      moves: ROWS - 1,
+      removes: 0,
+      reused: ROWS,
+    });
+  });
+
+  it('swaps two rows with two moves', () => {
+    const keys = range(ROWS);
+    const swapped = [...keys];
+    [swapped[1], swapped[ROWS - 2]] = [swapped[ROWS - 2], swapped[1]];
+    const result = update(keys, swapped);
+
+    expect(order()).toEqual(swapped);
+    expect(result.moves).toBe(2);
+    expect(result.inserts + result.removes).toBe(0);
+  });
+
+  it('moves a single row with one move', () => {
+    const keys = range(ROWS);
+    const moved = [...keys.slice(1, 500), keys[0], ...keys.slice(500)];
+    const result = update(keys, moved);
+
+    expect(order()).toEqual(moved);
+    expect(result.moves).toBe(1);
+  });
+
+  it('inserts rows at the start, middle and end without moves', () => {
+    const keys = range(ROWS);
+    const inserted = [0, ...keys.slice(0, 500), -1, ...keys.slice(500), -2];
+    const result = update(keys, inserted);
+
+    expect(order()).toEqual(inserted);
+    expect(result).toEqual({
+      inserts: 3,
+      moves: 0,
+      removes: 0,
+      reused: ROWS,
+    });
+  });
+
+  it('removes rows from the start, middle and end without moves', () => {
+    const keys = range(ROWS);
+    const removed = keys.filter(
+      key => key !== 1 && key !== 500 && key !== ROWS
+    );
+    const result = update(keys, removed);
+
+    expect(order()).toEqual(removed);
+    expect(result).toEqual({
+      inserts: 0,
+      moves: 0,
+      removes: 3,
+      reused: ROWS - 3,
+    });
+  });
+
+  it('replaces every row', () => {
+    const keys = range(ROWS);
+    const replaced = keys.map(key => key + ROWS);
+    const result = update(keys, replaced);
+
+    expect(order()).toEqual(replaced);
+    expect(result.moves).toBe(0);
+    expect(result.inserts).toBe(ROWS);
+    expect(result.removes).toBe(ROWS);
+  });
+
+  it('moves only rows outside the longest ordered run on a shuffle', () => {
+    const keys = range(ROWS);
+    // Interleave halves: the first and last rows stay as prefix and suffix,
+    // and one half of the rows in between has to move
+    const shuffled = keys.map((_, i) =>
+      i % 2 === 0 ? keys[i / 2] : keys[ROWS / 2 + (i - 1) / 2]
+    );
+    const result = update(keys, shuffled);
+
+    expect(order()).toEqual(shuffled);
+    expect(result.moves).toBe(ROWS / 2 - 1);
+    expect(result.reused).toBe(ROWS);
+  });
+
+  it('combines insertions, removals and moves', () => {
+    const from = [1, 2, 3, 4, 5, 6, 7, 8];
+    const to = [1, 9, 6, 3, 4, 10, 2, 8];
+    const result = update(from, to);
+
+    expect(order()).toEqual(to);
+    expect(result.inserts).toBe(2);
+    expect(result.removes).toBe(2);
+    expect(result.moves).toBe(2);
+  });
+
+  it('patches unkeyed children in place', () => {
+    const before = h('ul', {}, h('li', {}, 'a'), h('li', {}, 'b'));
+    const after = h('ul', {}, h('li', {}, 'b'), h('li', {}, 'c'));
+    render(before, container);
+    const [first, second] = rows();
+
+    resetStats();
+    render(after, container);
+
+    expect(rows().map(row => row.textContent)).toEqual(['b', 'c']);
+    expect(rows()[0]).toBe(first);
+    expect(rows()[1]).toBe(second);
+    expect(stats.moves + stats.inserts + stats.removes).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import { render } from '../../src/core/render';
+import { createContainer } from '../helpers/dom';
+
+let container: any;
+
+const click = (node: any) =>
+  node.dispatchEvent(new Event('click', { bubbles: true }));
+
+beforeEach(() => {
+  container = createContainer();
+});
+
+describe('delegated events', () => {
+  it('runs capture handlers down to the target, then bubble handlers up', () => {
+    const log: string[] = [];
+    render(
+      h(
+        'div',
+        {
+          onClickCapture: () => log.push('div capture'),
+          onClick: () => log.push('div'),
+        },
+        h('button', {
+          onClickCapture: () => log.push('button capture'),
+          onClick: () => log.push('button'),
+        })
+      ),
+      container
+    );
+
+    click(container.firstChild.firstChild);
+
+    expect(log).toEqual(['div capture', 'button capture', 'button', 'div']);
+  });
+
+  it('stops at the handler that stops propagation', () => {
+    const log: string[] = [];
+    render(
+      h(
+        'section',
+        { onClick: () => log.push('section') },
+        h(
+          'div',
+          {
+            onClick: (event: Event) => {
+              log.push('div');
+              event.stopPropagation();
+            },
+          },
+          h('button', { onClick: () => log.push('button') })
+        )
+      ),
+      container
+    );
+
+    click(container.firstChild.firstChild.firstChild);
+
+    expect(log).toEqual(['button', 'div']);
+  });
+
+  it('sets currentTarget to the node of each handler', () => {
+    const targets: any[] = [];
+    const record = (event: Event) => targets.push(event.currentTarget);
+    render(
+      h('div', { onClick: record }, h('button', { onClick: record })),
+      container
+    );
+    const div = container.firstChild;
+    const event = new Event('click', { bubbles: true });
+
+    div.firstChild.dispatchEvent(event);
+
+    expect(targets).toEqual([div.firstChild, div]);
+    // The native getter is back once dispatch is done
+    expect(Object.hasOwn(event, 'currentTarget')).toBe(false);
+  });
+});
+
+describe('events that do not bubble', () => {
+  it('bind onFocus and onScroll directly to their node', () => {
+    const log: string[] = [];
+    const view = (listening: boolean) =>
+      h(
+        'div',
+        { onScroll: listening ? () => log.push('scroll') : undefined },
+        h('input', { onFocus: listening ? () => log.push('focus') : undefined })
+      );
+    render(view(true), container);
+    const div = container.firstChild;
+
+    div.firstChild.dispatchEvent(new Event('focus'));
+    div.dispatchEvent(new Event('scroll'));
+
+    expect(log).toEqual(['focus', 'scroll']);
+
+    // Removing the handlers removes their listeners
+    render(view(false), container);
+    div.firstChild.dispatchEvent(new Event('focus'));
+    div.dispatchEvent(new Event('scroll'));
+
+    expect(log).toEqual(['focus', 'scroll']);
+  });
+});
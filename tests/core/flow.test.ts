@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import { Dynamic, For, Index, Match, Switch } from '../../src/core/flow';
+import { onUnmount } from '../../src/core/lifecycle';
+import {
+  createMemoryNode,
+  memoryHost,
+  serializeMemoryNode,
+} from '../../src/core/memory';
+import {
+  createEffect,
+  createSignal,
+  onCleanup,
+} from '../../src/core/reactivity';
+import { createRenderer } from '../../src/core/renderer';
+import { flushSync } from '../../src/core/scheduler';
+
+const { render } = createRenderer(memoryHost);
+
+describe('For', () => {
+  it('shows the fallback once the list is empty, and rows again after', () => {
+    const root = createMemoryNode();
+    const [items, setItems] = createSignal(['a', 'b']);
+    const disposed: string[] = [];
+    render(
+      h(
+        'ul',
+        {},
+        h(
+          For,
+          { each: items, fallback: h('li', {}, 'empty') },
+          (item: string) => {
+            onCleanup(() => disposed.push(item));
+            return h('li', {}, item);
+          }
+        )
+      ),
+      root
+    );
+
+    flushSync(() => setItems([]));
+
+    expect(serializeMemoryNode(root)).toBe('<ul><li>empty</li></ul>');
+    expect(disposed).toEqual(['a', 'b']);
+
+    flushSync(() => setItems(['c']));
+
+    expect(serializeMemoryNode(root)).toBe('<ul><li>c</li></ul>');
+  });
+});
+
+describe('Index', () => {
+  it('updates the rows in place through their item signals', () => {
+    const root = createMemoryNode();
+    const [items, setItems] = createSignal(['a', 'b', 'c']);
+    let created = 0;
+    render(
+      h(
+        'ul',
+        {},
+        h(
+          Index,
+          { each: items, fallback: 'none' },
+          (item: () => string, index: number) => {
+            created++;
+            return h('li', {}, () => `${index} ${item()}`);
+          }
+        )
+      ),
+      root
+    );
+    const [first] = root.children[0].children.filter(
+      node => node.type === 'li'
+    );
+
+    flushSync(() => setItems(['x', 'b']));
+
+    expect(serializeMemoryNode(root)).toBe('<ul><li>0 x</li><li>1 b</li></ul>');
+    expect(root.children[0].children).toContain(first);
+    expect(created).toBe(3);
+
+    flushSync(() => setItems([]));
+
+    expect(serializeMemoryNode(root)).toBe('<ul>none</ul>');
+  });
+});
+
+describe('Switch', () => {
+  it('renders the first match or the fallback, disposing the old branch', () => {
+    const root = createMemoryNode();
+    const [count, setCount] = createSignal(0);
+    const log: string[] = [];
+
+    function Branch(props: { name: string }) {
+      createEffect(() => log.push(`${props.name} sees ${count()}`));
+      onUnmount(() => log.push(`unmount ${props.name}`));
+      return h('p', {}, props.name);
+    }
+    render(
+      h(
+        Switch,
+        { fallback: h(Branch, { name: 'none' }) },
+        h(Match, { when: () => count() > 10 }, h(Branch, { name: 'many' })),
+        h(Match, { when: () => count() > 0 }, h(Branch, { name: 'some' }))
+      ),
+      root
+    );
+    flushSync();
+
+    flushSync(() => setCount(1));
+    expect(serializeMemoryNode(root)).toBe('<p>some</p>');
+
+    // The same match stays rendered
+    flushSync(() => setCount(2));
+    flushSync(() => setCount(20));
+    expect(serializeMemoryNode(root)).toBe('<p>many</p>');
+
+    flushSync(() => setCount(0));
+    expect(serializeMemoryNode(root)).toBe('<p>none</p>');
+
+    expect(log).toEqual([
+      'none sees 0',
+      'unmount none',
+      'some sees 1',
+      'some sees 2',
+      'unmount some',
+      'many sees 20',
+      'unmount many',
+      'none sees 0',
+    ]);
+  });
+
+  it('reads its children only when created', () => {
+    const root = createMemoryNode();
+    const [on, setOn] = createSignal(false);
+    let reads = 0;
+    const matches = [h(Match, { when: on }, 'on')];
+    render(
+      h(Switch, {
+        fallback: 'off',
+        get children() {
+          reads++;
+          return matches;
+        },
+      }),
+      root
+    );
+
+    const readsToRender = reads;
+
+    flushSync(() => setOn(true));
+    expect(serializeMemoryNode(root)).toBe('on');
+    flushSync(() => setOn(false));
+
+    expect(serializeMemoryNode(root)).toBe('off');
+    expect(reads).toBe(readsToRender);
+  });
+});
+
+describe('Dynamic', () => {
+  it('replaces a tag with a component', () => {
+    const root = createMemoryNode();
+    const unmounted: string[] = [];
+    const Card = (props: { title: string }) => {
+      onUnmount(() => unmounted.push('card'));
+      return h('section', {}, h('h2', {}, props.title));
+    };
+    const [component, setComponent] = createSignal<any>('h2');
+    render(
+      h('div', {}, () =>
+        h(Dynamic, { component: component(), title: 'Hi' }, 'text')
+      ),
+      root
+    );
+
+    expect(serializeMemoryNode(root)).toBe(
+      '<div><h2 title="Hi">text</h2></div>'
+    );
+
+    flushSync(() => setComponent(() => Card));
+    expect(serializeMemoryNode(root)).toBe(
+      '<div><section><h2>Hi</h2></section></div>'
+    );
+
+    flushSync(() => setComponent(null));
+    expect(serializeMemoryNode(root)).toBe('<div></div>');
+    expect(unmounted).toEqual(['card']);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test';
+import { Fragment, h } from '../../src/core/component';
+import { onUnmount } from '../../src/core/lifecycle';
+import {
+  createMemoryNode,
+  memoryHost,
+  serializeMemoryNode,
+} from '../../src/core/memory';
+import { createSignal } from '../../src/core/reactivity';
+import { renderToString } from '../../src/core/render';
+import { createRenderer } from '../../src/core/renderer';
+import { flushSync } from '../../src/core/scheduler';
+
+const { render } = createRenderer(memoryHost);
+
+// Renders a term and its definition without a wrapping element
+const Term = (props: { name: string }) =>
+  h(Fragment, {}, h('dt', {}, props.name), h('dd', {}, `${props.name}!`));
+
+describe('fragments', () => {
+  it('lets a component switch between a fragment and one element', () => {
+    const root = createMemoryNode();
+    const [split, setSplit] = createSignal(true);
+    const Cell = () =>
+      split()
+        ? h(Fragment, {}, h('b', {}, '1'), h('i', {}, '2'))
+        : h('u', {}, '3');
+    render(h('p', {}, h(Cell, {}), 'end'), root);
+
+    expect(serializeMemoryNode(root)).toBe('<p><b>1</b><i>2</i>end</p>');
+
+    flushSync(() => setSplit(false));
+    expect(serializeMemoryNode(root)).toBe('<p><u>3</u>end</p>');
+
+    flushSync(() => setSplit(true));
+    expect(serializeMemoryNode(root)).toBe('<p><b>1</b><i>2</i>end</p>');
+  });
+
+  it('moves and removes keyed components that render fragments', () => {
+    const root = createMemoryNode();
+    const unmounted: string[] = [];
+    const Entry = (props: { name: string }) => {
+      onUnmount(() => unmounted.push(props.name));
+      return h(Term, { name: props.name });
+    };
+    const list = (names: string[]) =>
+      h('dl', {}, ...names.map(name => h(Entry, { key: name, name })));
+
+    // Each fragment sits between two empty marker text nodes
+    const terms = () =>
+      root.children[0].children.filter(node => node.type === 'dt');
+    render(list(['a', 'b', 'c']), root);
+    const [a] = terms();
+
+    render(list(['c', 'a']), root);
+
+    expect(serializeMemoryNode(root)).toBe(
+      '<dl><dt>c</dt><dd>c!</dd><dt>a</dt><dd>a!</dd></dl>'
+    );
+    // The row was moved, not created again, and b's markers were removed
+    expect(terms()[1]).toBe(a);
+    expect(root.children[0].children.length).toBe(8);
+    expect(unmounted).toEqual(['b']);
+  });
+
+  it('re-renders a root array to a different shape', () => {
+    const root = createMemoryNode();
+
+    render([h('h1', {}, 'title'), 'text'], root);
+    expect(serializeMemoryNode(root)).toBe('<h1>title</h1>text');
+
+    render([h('p', {}, 'one'), h('p', {}, 'two'), h('p', {}, 'three')], root);
+    expect(serializeMemoryNode(root)).toBe('<p>one</p><p>two</p><p>three</p>');
+
+    render(h('main', {}), root);
+    expect(serializeMemoryNode(root)).toBe('<main></main>');
+
+    render(['a', h('b', {})], root);
+    expect(serializeMemoryNode(root)).toBe('a<b></b>');
+  });
+
+  it('renders only the children of a fragment on the server', () => {
+    expect(renderToString(h('dl', {}, h(Term, { name: 'x' })))).toBe(
+      '<dl><dt>x</dt><dd>x!</dd></dl>'
+    );
+    expect(renderToString(h(Fragment, {}))).toBe('');
+  });
+});
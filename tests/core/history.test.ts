@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import { createHistory } from '../../src/core/history';
+import { createEffect } from '../../src/core/reactivity';
+import { flushSync } from '../../src/core/scheduler';
+import { createStore, produce, unwrap } from '../../src/core/store';
+
+function editor() {
+  return createStore({
+    title: 'Untitled',
+    shapes: [{ x: 0, y: 0 }],
+  });
+}
+
+describe('createHistory', () => {
+  it('undoes and redoes updates, including added and removed items', () => {
+    const store = editor();
+    const history = createHistory(store);
+    const initial = JSON.stringify(store.state);
+
+    store.setState('title', 'Logo');
+    store.setState(
+      'shapes',
+      produce(shapes => {
+        shapes.push({ x: 5, y: 5 });
+        shapes.shift();
+      })
+    );
+    const edited = JSON.stringify(store.state);
+
+    history.undo();
+    history.undo();
+    expect(JSON.stringify(store.state)).toBe(initial);
+    expect(history.canUndo()).toBe(false);
+
+    history.redo();
+    history.redo();
+    expect(JSON.stringify(store.state)).toBe(edited);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('records checkpoints and actions as single entries', () => {
+    const store = editor();
+    const history = createHistory(store);
+    const actions = store.createActions(({ setState }) => ({
+      rename(title: string) {
+        setState('title', title);
+        setState('shapes', 0, 'x', 1);
+      },
+    }));
+
+    actions.rename('Logo');
+    history.checkpoint(() => {
+      store.setState('shapes', 0, 'x', 10);
+      store.setState('shapes', 0, 'y', 20);
+    }, 'move');
+
+    expect(history.entries().map(entry => entry.label)).toEqual([
+      'rename',
+      'move',
+    ]);
+
+    history.undo();
+    expect(unwrap(store.state.shapes)).toEqual([{ x: 1, y: 0 }]);
+  });
+
+  it('travels to any entry and drops undone ones on a new update', () => {
+    const store = editor();
+    const history = createHistory(store, { limit: 3 });
+    const titles: string[] = [];
+    createEffect(() => titles.push(store.state.title));
+    flushSync();
+
+    for (const title of ['a', 'b', 'c', 'd']) store.setState('title', title);
+    flushSync();
+    titles.length = 0;
+
+    // The first update was dropped past the limit
+    expect(history.entries().length).toBe(3);
+    flushSync(() => history.jumpTo(0));
+    expect(store.state.title).toBe('a');
+    expect(titles).toEqual(['a']);
+
+    history.jumpTo(2);
+    store.setState('title', 'e');
+
+    expect(history.index()).toBe(3);
+    expect(history.canRedo()).toBe(false);
+    expect(() => history.jumpTo(4)).toThrow(
+      'Cannot jump to history entry 4 of 3'
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+import { h } from '../../src/core/component';
+import { Show } from '../../src/core/flow';
+import {
+  createMemoryNode,
+  memoryHost,
+  type MemoryNode,
+} from '../../src/core/memory';
+import {
+  MATHML_NAMESPACE,
+  SVG_NAMESPACE,
+  XLINK_NAMESPACE,
+} from '../../src/core/namespace';
+import { setProperty } from '../../src/core/props';
+import { createSignal } from '../../src/core/reactivity';
+import { renderToString } from '../../src/core/render';
+import { createRenderer } from '../../src/core/renderer';
+import { flushSync } from '../../src/core/scheduler';
+import { createProgressiveRenderer } from '../../src/ssr/streaming';
+import { createContainer } from '../helpers/dom';
+
+const { render } = createRenderer(memoryHost);
+
+// Tag and namespace of a node and its descendant elements
+function namespaces(node: MemoryNode): string[] {
+  if (node.type === '#text') return [];
+  const own = node.type.startsWith('#')
+    ? []
+    : [`${node.type} ${node.namespace ?? 'html'}`];
+  return [...own, ...node.children.flatMap(namespaces)];
+}
+
+describe('element namespaces', () => {
+  it('creates elements added inside an <svg> later as SVG', () => {
+    const root = createMemoryNode();
+    const [shown, setShown] = createSignal(false);
+    render(
+      h(
+        'svg',
+        {},
+        h(Show, { when: shown }, () => h('g', {}, h('rect', { width: 1 })))
+      ),
+      root
+    );
+
+    flushSync(() => setShown(true));
+
+    expect(namespaces(root)).toEqual([
+      `svg ${SVG_NAMESPACE}`,
+      `g ${SVG_NAMESPACE}`,
+      `rect ${SVG_NAMESPACE}`,
+    ]);
+
+    // So do elements rendered straight into an SVG node
+    const svg = createMemoryNode('svg', SVG_NAMESPACE);
+    render(h('circle', { r: 2 }), svg);
+    expect(svg.children[0].namespace).toBe(SVG_NAMESPACE);
+  });
+
+  it('switches back to HTML inside foreignObject', () => {
+    const root = createMemoryNode();
+    render(
+      h(
+        'svg',
+        {},
+        h('foreignObject', {}, h('div', {}, h('span', {}, 'label')))
+      ),
+      root
+    );
+
+    expect(namespaces(root)).toEqual([
+      `svg ${SVG_NAMESPACE}`,
+      `foreignObject ${SVG_NAMESPACE}`,
+      'div html',
+      'span html',
+    ]);
+  });
+
+  it('creates MathML elements inside <math>', () => {
+    const root = createMemoryNode();
+    render(h('p', {}, h('math', {}, h('mrow', {}, h('mi', {}, 'x')))), root);
+
+    expect(namespaces(root)).toEqual([
+      'p html',
+      `math ${MATHML_NAMESPACE}`,
+      `mrow ${MATHML_NAMESPACE}`,
+      `mi ${MATHML_NAMESPACE}`,
+    ]);
+  });
+
+  it('sets xlink: attributes in the XLink namespace', () => {
+    createContainer();
+    const use = document.createElementNS(SVG_NAMESPACE, 'use') as any;
+    const set = spyOn(use, 'setAttributeNS');
+    const remove = spyOn(use, 'removeAttributeNS');
+
+    setProperty(use, 'xlink:href', '#icon', undefined);
+    setProperty(use, 'xlink:href', null, '#icon');
+
+    expect(set).toHaveBeenCalledWith(XLINK_NAMESPACE, 'xlink:href', '#icon');
+    expect(remove).toHaveBeenCalledWith(XLINK_NAMESPACE, 'href');
+    expect(use.attributes).toEqual({});
+  });
+});
+
+describe('server rendering of namespaced elements', () => {
+  const page = h(
+    'div',
+    {},
+    h(
+      'svg',
+      {},
+      h('path', { d: 'M0 0' }),
+      h('foreignObject', {}, h('p', {}), h('br', {}))
+    ),
+    h('math', {}, h('mspace', {}))
+  );
+  const markup =
+    '<div><svg><path d="M0 0" /><foreignObject><p></p><br /></foreignObject>' +
+    '</svg><math><mspace /></math></div>';
+
+  it('closes empty SVG and MathML elements, but not HTML ones', () => {
+    expect(renderToString(page)).toBe(markup);
+  });
+
+  it('renders the same markup when streaming', async () => {
+    const html = await new Response(createProgressiveRenderer(page)).text();
+
+    expect(html).toContain(markup);
+  });
+});
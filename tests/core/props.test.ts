@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import { setProperty } from '../../src/core/props';
+import { createSignal } from '../../src/core/reactivity';
+import { render } from '../../src/core/render';
+import { flushSync } from '../../src/core/scheduler';
+import { createContainer } from '../helpers/dom';
+
+let container: any;
+
+const element = (tag: string) => document.createElement(tag) as any;
+
+beforeEach(() => {
+  container = createContainer();
+});
+
+describe('setProperty', () => {
+  it('sets live state as properties and other props as attributes', () => {
+    const input = element('input');
+
+    setProperty(input, 'value', 42, undefined);
+    setProperty(input, 'checked', true, undefined);
+    setProperty(input, 'name', 'age', undefined);
+
+    expect(input.value).toBe('42');
+    expect(input.checked).toBe(true);
+    expect(input.attributes).toEqual({ name: 'age' });
+
+    setProperty(input, 'value', undefined, 42);
+    setProperty(input, 'checked', undefined, true);
+
+    expect(input.value).toBe('');
+    expect(input.checked).toBe(false);
+  });
+
+  it('sets a value the user has changed back to the prop', () => {
+    const [text, setText] = createSignal('draft');
+    render(h('input', { value: text }), container);
+    const input = container.firstChild;
+
+    // The user types, and the app resets the field
+    input.value = 'draft, edited';
+    flushSync(() => setText(''));
+    expect(input.value).toBe('');
+
+    input.value = 'typed again';
+    setProperty(input, 'value', '', '');
+    expect(input.value).toBe('');
+  });
+
+  it('diffs class tokens, keeping classes toggled by classList', () => {
+    const div = element('div');
+
+    setProperty(div, 'class', 'card large', undefined);
+    setProperty(div, 'classList', { active: true }, undefined);
+    setProperty(div, 'className', 'card small', 'card large');
+
+    expect(div.attributes.class).toBe('card active small');
+
+    setProperty(div, 'classList', { active: false }, { active: true });
+    setProperty(div, 'class', '', 'card small');
+
+    expect(div.attributes.class).toBeUndefined();
+  });
+
+  it('removes style keys the new style object no longer has', () => {
+    const div = element('div');
+
+    setProperty(div, 'style', 'color: red', undefined);
+    setProperty(
+      div,
+      'style',
+      { fontSize: '12px', 'margin-top': '4px', '--gap': '2px' },
+      'color: red'
+    );
+
+    expect(div.style.cssText).toBe(
+      'font-size: 12px; margin-top: 4px; --gap: 2px;'
+    );
+
+    setProperty(
+      div,
+      'style',
+      { fontSize: '14px' },
+      { fontSize: '12px', 'margin-top': '4px', '--gap': '2px' }
+    );
+
+    expect(div.style.cssText).toBe('font-size: 14px;');
+
+    setProperty(div, 'style', null, { fontSize: '14px' });
+
+    expect(div.attributes.style).toBeUndefined();
+  });
+
+  it('lets prop: and attr: choose between property and attribute', () => {
+    const input = element('input');
+    const custom = element('x-chart');
+
+    setProperty(input, 'attr:value', 'initial', undefined);
+    setProperty(custom, 'prop:data', [1, 2], undefined);
+    setProperty(custom, 'attr:title', 'Sales', undefined);
+
+    expect(input.attributes).toEqual({ value: 'initial' });
+    expect(input.value).toBe('');
+    expect(custom.data).toEqual([1, 2]);
+    expect(custom.attributes).toEqual({ title: 'Sales' });
+  });
+
+  it('diffs against what a reactive binding set last', () => {
+    const [tab, setTab] = createSignal(1);
+    function Tabs() {
+      const first = tab() === 1;
+      return h('p', {
+        class: () => (first ? 'first' : 'second'),
+        style: () => (first ? { color: 'red' } : { fontSize: '2px' }),
+      });
+    }
+    render(h(Tabs, {}), container);
+    const p = () => container.firstChild;
+
+    flushSync(() => setTab(2));
+
+    expect(p().attributes.class).toBe('second');
+    expect(p().style.cssText).toBe('font-size: 2px;');
+
+    render(h('p', { style: () => ({ color: 'red' }) }), container);
+    render(h('p', { style: { margin: '1px' } }), container);
+
+    expect(container.firstChild.style.cssText).toBe('margin: 1px;');
+  });
+});
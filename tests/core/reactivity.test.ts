@@ -0,0 +1,361 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  batch,
+  createEffect,
+  createMemo,
+  createRoot,
+  createSignal,
+  on,
+  onCleanup,
+  untrack,
+} from '../../src/core/reactivity';
+import { isEqual } from '../../src/utils';
+
+// Effects are flushed through the scheduler
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createMemo', () => {
+  it('is lazy and recomputes only when read after a change', () => {
+    const [count, setCount] = createSignal(1);
+    let runs = 0;
+    const double = createMemo(() => {
+      runs++;
+      return count() * 2;
+    });
+
+    expect(runs).toBe(0);
+    expect(double()).toBe(2);
+    expect(double()).toBe(2);
+    expect(runs).toBe(1);
+
+    setCount(2);
+    expect(runs).toBe(1);
+    expect(double()).toBe(4);
+    expect(runs).toBe(2);
+  });
+
+  it('returns a fresh value right after a write through a chain', () => {
+    const [a, setA] = createSignal(1);
+    const b = createMemo(() => a() + 1);
+    const c = createMemo(() => b() + 1);
+    const d = createMemo(() => c() + 1);
+
+    expect(d()).toBe(4);
+    setA(10);
+    expect(d()).toBe(13);
+  });
+
+  it('stops propagation when an intermediate value does not change', () => {
+    const [a, setA] = createSignal(1);
+    const parity = createMemo(() => a() % 2);
+    let runs = 0;
+    const label = createMemo(() => {
+      runs++;
+      return parity() === 0 ? 'even' : 'odd';
+    });
+
+    expect(label()).toBe('odd');
+    setA(3);
+    expect(label()).toBe('odd');
+    expect(runs).toBe(1);
+
+    setA(4);
+    expect(label()).toBe('even');
+    expect(runs).toBe(2);
+  });
+
+  it('computes a diamond once with consistent inputs', () => {
+    const [a, setA] = createSignal(1);
+    const b = createMemo(() => a() * 2);
+    const c = createMemo(() => a() * 3);
+    const seen: Array<[number, number]> = [];
+    const d = createMemo(() => {
+      seen.push([b(), c()]);
+      return b() + c();
+    });
+
+    expect(d()).toBe(5);
+    setA(2);
+    expect(d()).toBe(10);
+    expect(seen).toEqual([
+      [2, 3],
+      [4, 6],
+    ]);
+  });
+});
+
+describe('createEffect', () => {
+  it('runs once per flush for a diamond and never sees a glitch', async () => {
+    const [a, setA] = createSignal(1);
+    const b = createMemo(() => a() + 1);
+    const c = createMemo(() => a() * 10);
+    const seen: string[] = [];
+
+    createRoot(() => {
+      createEffect(() => {
+        seen.push(`${b()}:${c()}`);
+      });
+    });
+
+    setA(2);
+    setA(3);
+    await tick();
+
+    expect(seen).toEqual(['2:10', '4:30']);
+  });
+
+  it('skips effects whose memos did not change', async () => {
+    const [a, setA] = createSignal(2);
+    const isPositive = createMemo(() => a() > 0);
+    let runs = 0;
+
+    createRoot(() => {
+      createEffect(() => {
+        isPositive();
+        runs++;
+      });
+    });
+
+    setA(5);
+    await tick();
+    expect(runs).toBe(1);
+
+    setA(-1);
+    await tick();
+    expect(runs).toBe(2);
+  });
+
+  it('drops subscriptions from branches it no longer reads', async () => {
+    const [show, setShow] = createSignal(true);
+    const [value, setValue] = createSignal(1);
+    let runs = 0;
+
+    createRoot(() => {
+      createEffect(() => {
+        runs++;
+        if (show()) value();
+      });
+    });
+
+    setShow(false);
+    await tick();
+    setValue(2);
+    await tick();
+
+    expect(runs).toBe(2);
+  });
+
+  it('runs cleanups before re-running and when disposed', async () => {
+    const [count, setCount] = createSignal(0);
+    const log: string[] = [];
+
+    const dispose = createRoot(dispose => {
+      createEffect(() => {
+        const current = count();
+        log.push(`run ${current}`);
+        onCleanup(() => log.push(`clean ${current}`));
+      });
+      return dispose;
+    });
+
+    setCount(1);
+    await tick();
+    dispose();
+    setCount(2);
+    await tick();
+
+    expect(log).toEqual(['run 0', 'clean 0', 'run 1', 'clean 1']);
+  });
+
+  it('disposes nested effects when the parent re-runs', async () => {
+    const [outer, setOuter] = createSignal(0);
+    const [inner, setInner] = createSignal(0);
+    let innerRuns = 0;
+
+    createRoot(() => {
+      createEffect(() => {
+        outer();
+        createEffect(() => {
+          inner();
+          innerRuns++;
+        });
+      });
+    });
+
+    setOuter(1);
+    await tick();
+    expect(innerRuns).toBe(2);
+
+    setInner(1);
+    await tick();
+    expect(innerRuns).toBe(3);
+  });
+});
+
+describe('signal options', () => {
+  it('notifies on every write with equals: false', async () => {
+    const items: number[] = [];
+    const [list, setList] = createSignal(items, { equals: false });
+    let runs = 0;
+
+    createRoot(() => {
+      createEffect(() => {
+        list();
+        runs++;
+      });
+    });
+
+    setList(current => {
+      current.push(1);
+      return current;
+    });
+    await tick();
+
+    expect(runs).toBe(2);
+  });
+
+  it('uses a custom comparator for signals and memos', async () => {
+    const [point, setPoint] = createSignal({ x: 1, y: 1 }, { equals: isEqual });
+    let memoRuns = 0;
+    const shifted = createMemo(
+      () => {
+        memoRuns++;
+        return { x: point().x + 1 };
+      },
+      { equals: isEqual }
+    );
+    let effectRuns = 0;
+
+    createRoot(() => {
+      createEffect(() => {
+        shifted();
+        effectRuns++;
+      });
+    });
+
+    setPoint({ x: 1, y: 1 });
+    await tick();
+    expect(memoRuns).toBe(1);
+
+    setPoint({ x: 1, y: 2 });
+    await tick();
+    expect(memoRuns).toBe(2);
+    expect(effectRuns).toBe(1);
+  });
+
+  it('names accessors for debugging', () => {
+    const [count] = createSignal(0, { name: 'count' });
+    const double = createMemo(() => count() * 2, { name: 'double' });
+
+    expect(count.name).toBe('count');
+    expect(double.name).toBe('double');
+  });
+});
+
+describe('batch', () => {
+  it('flushes dependants once and synchronously', () => {
+    const [first, setFirst] = createSignal('John');
+    const [last, setLast] = createSignal('Doe');
+    const full = createMemo(() => `${first()} ${last()}`);
+    const seen: string[] = [];
+
+    createRoot(() => {
+      createEffect(() => {
+        seen.push(full());
+      });
+    });
+
+    batch(() => {
+      setFirst('Jane');
+      expect(full()).toBe('Jane Doe');
+      setLast('Smith');
+    });
+
+    expect(seen).toEqual(['John Doe', 'Jane Smith']);
+  });
+});
+
+describe('untrack', () => {
+  it('reads signals without subscribing to them', async () => {
+    const [a, setA] = createSignal(1);
+    const [b, setB] = createSignal(10);
+    const sums: number[] = [];
+
+    createRoot(() => {
+      createEffect(() => {
+        sums.push(a() + untrack(() => b()));
+      });
+    });
+    await tick();
+
+    setB(20);
+    await tick();
+    expect(sums).toEqual([11]);
+
+    // The next run still sees the latest value
+    setA(2);
+    await tick();
+    expect(sums).toEqual([11, 22]);
+  });
+});
+
+describe('on', () => {
+  it('tracks only its dependencies and passes the previous input', async () => {
+    const [a, setA] = createSignal(1);
+    const [b, setB] = createSignal('x');
+    const calls: Array<[number, number | undefined, string]> = [];
+
+    createRoot(() => {
+      createEffect(on(a, (value, prev) => calls.push([value, prev, b()])));
+    });
+    await tick();
+
+    setB('y');
+    await tick();
+    setA(2);
+    await tick();
+
+    expect(calls).toEqual([
+      [1, undefined, 'x'],
+      [2, 1, 'y'],
+    ]);
+  });
+
+  it('skips the first run with defer', async () => {
+    const [a, setA] = createSignal(1);
+    const calls: Array<[number, number | undefined]> = [];
+
+    createRoot(() => {
+      createEffect(
+        on(a, (value, prev) => calls.push([value, prev]), { defer: true })
+      );
+    });
+    await tick();
+    expect(calls).toEqual([]);
+
+    setA(2);
+    await tick();
+    expect(calls).toEqual([[2, 1]]);
+  });
+
+  it('takes an array of dependencies', async () => {
+    const [a, setA] = createSignal(1);
+    const [b, setB] = createSignal('x');
+    const inputs: unknown[] = [];
+    const combined = createRoot(() =>
+      createMemo(
+        on([a, b], ([count, label], prev) => {
+          inputs.push(prev);
+          return `${label}${count}`;
+        })
+      )
+    );
+
+    expect(combined()).toBe('x1');
+    setB('y');
+    expect(combined()).toBe('y1');
+    setA(2);
+    expect(combined()).toBe('y2');
+    expect(inputs).toEqual([undefined, [1, 'x'], [1, 'y']]);
+  });
+});
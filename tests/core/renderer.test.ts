@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import { For, Portal, Show } from '../../src/core/flow';
+import { onMount, onUnmount } from '../../src/core/lifecycle';
+import {
+  createMemoryNode,
+  memoryHost,
+  serializeMemoryNode,
+} from '../../src/core/memory';
+import { SVG_NAMESPACE } from '../../src/core/namespace';
+import { createSignal } from '../../src/core/reactivity';
+import { renderToString } from '../../src/core/render';
+import { createRenderer } from '../../src/core/renderer';
+
+// Effects are flushed through the scheduler
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const { render } = createRenderer(memoryHost);
+
+describe('createRenderer with the memory host', () => {
+  it('renders host elements, text and props', () => {
+    const root = createMemoryNode();
+    render(
+      h('div', { id: 'app', hidden: true }, h('p', {}, 'Hello ', 'world')),
+      root
+    );
+
+    expect(serializeMemoryNode(root)).toBe(
+      '<div id="app" hidden><p>Hello world</p></div>'
+    );
+  });
+
+  it('updates reactive children and props through the host', async () => {
+    const root = createMemoryNode();
+    const [count, setCount] = createSignal(0);
+    render(
+      h('button', { title: () => `Clicked ${count()}` }, 'Count: ', count),
+      root
+    );
+    const button = root.children[0];
+    const text = button.children[1];
+
+    setCount(2);
+    await tick();
+
+    expect(serializeMemoryNode(root)).toBe(
+      '<button title="Clicked 2">Count: 2</button>'
+    );
+    expect(root.children[0]).toBe(button);
+    expect(button.children[1]).toBe(text);
+  });
+
+  it('passes event handlers to the host as props', async () => {
+    const root = createMemoryNode();
+    const [count, setCount] = createSignal(0);
+    function Counter() {
+      return h('button', { onClick: () => setCount(count() + 1) }, count);
+    }
+    render(h(Counter, {}), root);
+
+    root.children[0].props.onClick();
+    await tick();
+
+    expect(serializeMemoryNode(root)).toBe('<button>1</button>');
+  });
+
+  it('moves keyed rows instead of re-creating them', async () => {
+    const root = createMemoryNode();
+    const [items, setItems] = createSignal(['a', 'b', 'c']);
+    render(
+      h(
+        'ul',
+        {},
+        h(For, { each: items }, (item: string) => h('li', {}, item))
+      ),
+      root
+    );
+    const [a, b, c] = root.children[0].children.filter(
+      node => node.type === 'li'
+    );
+
+    setItems(['c', 'a', 'b']);
+    await tick();
+
+    const rows = root.children[0].children.filter(node => node.type === 'li');
+    expect(rows).toEqual([c, a, b]);
+    expect(serializeMemoryNode(root)).toBe(
+      '<ul><li>c</li><li>a</li><li>b</li></ul>'
+    );
+  });
+
+  it('runs lifecycle callbacks for branches it shows and hides', async () => {
+    const root = createMemoryNode();
+    const [visible, setVisible] = createSignal(true);
+    const log: string[] = [];
+    function Panel() {
+      onMount(() => log.push('mount'));
+      onUnmount(() => log.push('unmount'));
+      return h('section', {}, 'panel');
+    }
+    render(h('div', {}, h(Show, { when: visible }, h(Panel, {}))), root);
+
+    expect(log).toEqual(['mount']);
+
+    setVisible(false);
+    await tick();
+
+    expect(log).toEqual(['mount', 'unmount']);
+    expect(serializeMemoryNode(root)).toBe('<div></div>');
+  });
+
+  it('creates SVG children in the SVG namespace', () => {
+    const root = createMemoryNode();
+    render(h('svg', {}, h('circle', { r: 2 })), root);
+
+    const [svg] = root.children;
+    expect(svg.namespace).toBe(SVG_NAMESPACE);
+    expect(svg.children[0].namespace).toBe(SVG_NAMESPACE);
+  });
+
+  it('swaps element and text children', () => {
+    const root = createMemoryNode();
+    render(h('div', {}, h('b', {}, 'bold'), 'plain'), root);
+
+    render(h('div', {}, 'plain', h('b', {}, 'bold')), root);
+    expect(serializeMemoryNode(root)).toBe('<div>plain<b>bold</b></div>');
+
+    render(h('div', {}, h('i', {}, 'x'), 'gone'), root);
+    expect(serializeMemoryNode(root)).toBe('<div><i>x</i>gone</div>');
+  });
+
+  it('renders portals into a mount node of the host', async () => {
+    const root = createMemoryNode();
+    const overlay = createMemoryNode();
+    const [open, setOpen] = createSignal(true);
+    const [title, setTitle] = createSignal('Hi');
+    render(
+      h(
+        'main',
+        {},
+        h(
+          Show,
+          { when: open },
+          h(Portal, { mount: overlay }, h('h2', {}, title))
+        )
+      ),
+      root
+    );
+
+    expect(serializeMemoryNode(root)).toBe('<main></main>');
+    expect(serializeMemoryNode(overlay)).toBe('<div><h2>Hi</h2></div>');
+
+    setTitle('Bye');
+    await tick();
+    expect(serializeMemoryNode(overlay)).toBe('<div><h2>Bye</h2></div>');
+
+    setOpen(false);
+    await tick();
+    expect(serializeMemoryNode(overlay)).toBe('');
+  });
+
+  it('diffs against the previous render and cleans up', () => {
+    const root = createMemoryNode();
+    render(h('p', { class: 'a' }, 'first'), root);
+    const paragraph = root.children[0];
+
+    const cleanup = render(h('p', { class: 'b' }, 'second'), root);
+    expect(root.children[0]).toBe(paragraph);
+    expect(serializeMemoryNode(root)).toBe('<p class="b">second</p>');
+
+    cleanup();
+    expect(root.children).toEqual([]);
+  });
+});
+
+describe('boolean children', () => {
+  it('render nothing in reactive regions and arrays', async () => {
+    const root = createMemoryNode();
+    const [on, setOn] = createSignal(false);
+    function Items() {
+      return [false, 'a', true, null];
+    }
+    render(
+      h('div', {}, () => on() && h('p', {}, 'shown'), h(Items, {})),
+      root
+    );
+
+    expect(serializeMemoryNode(root)).toBe('<div>a</div>');
+
+    setOn(true);
+    await tick();
+    expect(serializeMemoryNode(root)).toBe('<div><p>shown</p>a</div>');
+
+    setOn(false);
+    await tick();
+    expect(serializeMemoryNode(root)).toBe('<div>a</div>');
+  });
+
+  it('render nothing on the server', () => {
+    expect(renderToString(h('div', {}, () => false, [true, 'a', false]))).toBe(
+      '<div>a</div>'
+    );
+  });
+});
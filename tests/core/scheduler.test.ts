@@ -0,0 +1,348 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import { For } from '../../src/core/flow';
+import { onMount } from '../../src/core/lifecycle';
+import {
+  createMemoryNode,
+  memoryHost,
+  serializeMemoryNode,
+} from '../../src/core/memory';
+import { batch, createEffect, createSignal } from '../../src/core/reactivity';
+import { createRenderer } from '../../src/core/renderer';
+import {
+  afterLayout,
+  afterPaint,
+  cancelTask,
+  createManualSchedulerHost,
+  createTransition,
+  flushPending,
+  flushSync,
+  getCurrentPriority,
+  getSchedulerStats,
+  Priority,
+  resetSchedulerStats,
+  runWithPriority,
+  scheduleIdle,
+  scheduleTask,
+  scheduleWork,
+  serverSchedulerHost,
+  setSchedulerHost,
+  startTransition,
+} from '../../src/core/scheduler';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('scheduleTask', () => {
+  it('runs the most urgent waiting task next', async () => {
+    const log: string[] = [];
+    scheduleTask(() => {
+      log.push('low');
+      scheduleTask(() => log.push('high'), Priority.HIGH);
+    }, Priority.LOW);
+    scheduleTask(() => log.push('normal'), Priority.NORMAL);
+    scheduleTask(() => log.push('low 2'), Priority.LOW);
+
+    await tick();
+
+    expect(log).toEqual(['normal', 'low', 'high', 'low 2']);
+  });
+
+  it('runs effects at the priority of the write', async () => {
+    const [count, setCount] = createSignal(0);
+    const priorities: Priority[] = [];
+    createEffect(() => {
+      if (count() > 0) priorities.push(getCurrentPriority());
+    });
+
+    setCount(1);
+    await tick();
+    runWithPriority(Priority.HIGH, () => setCount(2));
+    await tick();
+
+    expect(priorities).toEqual([Priority.NORMAL, Priority.HIGH]);
+  });
+});
+
+describe('scheduleWork', () => {
+  it('yields to more urgent tasks between units', async () => {
+    const log: string[] = [];
+    function* units() {
+      for (let i = 1; i <= 3; i++) {
+        log.push(`unit ${i}`);
+        if (i === 2) scheduleTask(() => log.push('urgent'), Priority.HIGH);
+        yield;
+      }
+      return 'result';
+    }
+
+    scheduleWork(units(), result => log.push(result), Priority.LOW);
+    await tick();
+
+    expect(log).toEqual(['unit 1', 'unit 2', 'urgent', 'unit 3', 'result']);
+  });
+
+  it('runs HIGH priority work immediately and can be cancelled', async () => {
+    const log: string[] = [];
+    function* units() {
+      log.push('unit');
+      yield;
+    }
+
+    scheduleWork(units(), () => log.push('done'), Priority.HIGH);
+    expect(log).toEqual(['unit', 'done']);
+
+    const cancel = scheduleWork(units(), () => log.push('cancelled'));
+    cancel();
+    await tick();
+
+    expect(log).toEqual(['unit', 'done']);
+  });
+});
+
+describe('transitions', () => {
+  it('applies transition updates after urgent ones', async () => {
+    const [query, setQuery] = createSignal('');
+    const [results, setResults] = createSignal('');
+    const log: string[] = [];
+    createEffect(() => log.push(`query ${query()}`));
+    createEffect(() => log.push(`results ${results()}`));
+    log.length = 0;
+
+    runWithPriority(Priority.HIGH, () => {
+      startTransition(() => setResults('a, b'));
+      setQuery('a');
+    });
+    expect(results()).toBe('');
+    await tick();
+
+    expect(log).toEqual(['query a', 'results a, b']);
+  });
+
+  it('is pending until the updates it started are done', async () => {
+    const [value, setValue] = createSignal(0);
+    const [isPending, start] = createTransition();
+    const seen: Array<[number, boolean]> = [];
+    createEffect(() => seen.push([value(), isPending()]));
+
+    start(() => setValue(1));
+    expect(isPending()).toBe(true);
+    await tick();
+
+    expect(isPending()).toBe(false);
+    expect(seen).toEqual([
+      [0, false],
+      [0, true],
+      [1, true],
+      [1, false],
+    ]);
+  });
+});
+
+describe('time-sliced list updates', () => {
+  it('keeps the current rows until every new row is created', async () => {
+    const { render } = createRenderer(memoryHost);
+    const root = createMemoryNode();
+    const [items, setItems] = createSignal(['a']);
+    const snapshots: string[] = [];
+    const log: string[] = [];
+
+    function Row(props: { name: string }) {
+      // Looks at the tree from an urgent task while the update is pending
+      scheduleTask(
+        () => snapshots.push(serializeMemoryNode(root)),
+        Priority.HIGH
+      );
+      onMount(() => log.push(`mount ${props.name}`));
+      return h('li', {}, props.name);
+    }
+    render(
+      h(
+        'ul',
+        {},
+        h(For, { each: items }, (item: string) => h(Row, { name: item }))
+      ),
+      root
+    );
+    log.length = 0;
+
+    setItems(['a', 'b', 'c']);
+    await tick();
+
+    expect(snapshots.slice(-2)).toEqual([
+      '<ul><li>a</li></ul>',
+      '<ul><li>a</li></ul>',
+    ]);
+    expect(serializeMemoryNode(root)).toBe(
+      '<ul><li>a</li><li>b</li><li>c</li></ul>'
+    );
+    expect(log).toEqual(['mount b', 'mount c']);
+  });
+
+  it('places the list updates of a batch together', async () => {
+    const { render } = createRenderer(memoryHost);
+    const root = createMemoryNode();
+    const [title, setTitle] = createSignal('T1');
+    const [first, setFirst] = createSignal(['a']);
+    const [second, setSecond] = createSignal(['x']);
+    const snapshots: string[] = [];
+
+    function Row(props: { name: string }) {
+      scheduleTask(
+        () => snapshots.push(serializeMemoryNode(root)),
+        Priority.HIGH
+      );
+      return h('p', {}, props.name);
+    }
+    const list = (items: () => string[]) =>
+      h(
+        'div',
+        {},
+        h(For, { each: items }, (item: string) => h(Row, { name: item }))
+      );
+    render(h('main', {}, h('h1', {}, title), list(first), list(second)), root);
+    snapshots.length = 0;
+
+    batch(() => {
+      setTitle('T2');
+      setFirst(['a', 'b']);
+      setSecond(['x', 'y', 'z']);
+    });
+    await tick();
+
+    const before =
+      '<main><h1>T2</h1><div><p>a</p></div><div><p>x</p></div></main>';
+    expect(new Set(snapshots)).toEqual(new Set([before]));
+    expect(serializeMemoryNode(root)).toBe(
+      '<main><h1>T2</h1><div><p>a</p><p>b</p></div>' +
+        '<div><p>x</p><p>y</p><p>z</p></div></main>'
+    );
+  });
+
+  it('flushes a batch at the priority of the transition it runs in', async () => {
+    const [count, setCount] = createSignal(0);
+    const priorities: number[] = [];
+    createEffect(() => {
+      count();
+      priorities.push(getCurrentPriority());
+    });
+    await tick();
+    priorities.length = 0;
+
+    const [, start] = createTransition();
+    start(() => batch(() => setCount(1)));
+    startTransition(() => batch(() => setCount(2)));
+    await tick();
+
+    expect(priorities).toEqual([Priority.LOW, Priority.LOW]);
+  });
+});
+
+describe('scheduler hosts', () => {
+  afterEach(() => {
+    setSchedulerHost(serverSchedulerHost);
+  });
+
+  it('runs nothing on a manual host until asked to', () => {
+    const host = createManualSchedulerHost();
+    setSchedulerHost(host);
+    const log: string[] = [];
+
+    scheduleTask(() => log.push('task'));
+    afterLayout(() => log.push('layout'));
+    expect(log).toEqual([]);
+
+    host.runPending();
+
+    expect(log).toEqual(['task', 'layout']);
+  });
+
+  it('drains queued effects and list updates with flushSync', () => {
+    setSchedulerHost(createManualSchedulerHost());
+    const { render } = createRenderer(memoryHost);
+    const root = createMemoryNode();
+    const [items, setItems] = createSignal(['a']);
+    render(
+      h(
+        'ul',
+        {},
+        h(For, { each: items }, (item: string) => h('li', {}, item))
+      ),
+      root
+    );
+
+    flushSync(() => setItems(['a', 'b']));
+
+    expect(serializeMemoryNode(root)).toBe('<ul><li>a</li><li>b</li></ul>');
+  });
+
+  it('runs frame and idle callbacks with flushPending', () => {
+    setSchedulerHost(createManualSchedulerHost());
+    const log: string[] = [];
+
+    afterPaint(() => log.push('paint'));
+    afterLayout(() => {
+      log.push('layout');
+      scheduleTask(() => log.push('task'), Priority.LOW);
+    });
+    scheduleIdle(() => log.push('idle'));
+    flushPending();
+
+    expect(log).toEqual(['layout', 'paint', 'idle', 'task']);
+  });
+});
+
+describe('task expiration and cancellation', () => {
+  afterEach(() => {
+    setSchedulerHost(serverSchedulerHost);
+  });
+
+  it('runs LOW tasks once they expire, even while HIGH tasks keep coming', () => {
+    const host = createManualSchedulerHost();
+    setSchedulerHost(host);
+    resetSchedulerStats();
+    let urgent = 0;
+    let urgentBeforeLow = -1;
+
+    scheduleTask(() => (urgentBeforeLow = urgent), Priority.LOW);
+    const next = () => {
+      host.advance(100);
+      urgent++;
+      if (urgent < 100) scheduleTask(next, Priority.HIGH);
+    };
+    scheduleTask(next, Priority.HIGH);
+    host.runPending();
+
+    // LOW tasks may wait 5 seconds, 50 urgent tasks of 100ms each
+    expect(urgentBeforeLow).toBeGreaterThanOrEqual(50);
+    expect(urgentBeforeLow).toBeLessThan(100);
+
+    const stats = getSchedulerStats()[Priority.LOW];
+    expect(stats.expired).toBe(1);
+    expect(stats.maxLatency).toBeGreaterThanOrEqual(5000);
+  });
+
+  it('cancels tasks by ID or abort signal', () => {
+    setSchedulerHost(createManualSchedulerHost());
+    resetSchedulerStats();
+    const log: string[] = [];
+    const controller = new AbortController();
+
+    const id = scheduleTask(() => log.push('cancelled'));
+    scheduleTask(() => log.push('aborted'), Priority.NORMAL, {
+      signal: controller.signal,
+    });
+    scheduleTask(() => log.push('kept'));
+
+    expect(cancelTask(id)).toBe(true);
+    expect(cancelTask(id)).toBe(false);
+    controller.abort();
+    flushSync();
+
+    expect(log).toEqual(['kept']);
+    expect(getSchedulerStats()[Priority.NORMAL]).toMatchObject({
+      pending: 0,
+      completed: 1,
+      cancelled: 2,
+    });
+  });
+});
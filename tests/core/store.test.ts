@@ -0,0 +1,399 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { logger, persistence, validator } from '../../src/core/middleware';
+import { createEffect } from '../../src/core/reactivity';
+import { flushSync } from '../../src/core/scheduler';
+import { createFileStorage, createMemoryStorage } from '../../src/core/storage';
+import { createStore, produce, reconcile, unwrap } from '../../src/core/store';
+
+function cartStore() {
+  return createStore<{ cart: { items: Array<{ name: string; qty: number }> } }>(
+    {
+      cart: {
+        items: [
+          { name: 'apple', qty: 1 },
+          { name: 'pear', qty: 2 },
+        ],
+      },
+    }
+  );
+}
+
+describe('createStore', () => {
+  it('notifies only readers of the path that changed', () => {
+    const { state, setState } = cartStore();
+    const log: string[] = [];
+    createEffect(() => log.push(`apple ${state.cart.items[0].qty}`));
+    createEffect(() => log.push(`pear ${state.cart.items[1].qty}`));
+    flushSync();
+    log.length = 0;
+
+    flushSync(() => setState('cart', 'items', 1, 'qty', qty => qty + 1));
+
+    expect(log).toEqual(['pear 3']);
+    expect(state.cart.items[1]).toEqual({ name: 'pear', qty: 3 });
+  });
+
+  it('tracks keys that are added and deleted', () => {
+    const { state, setState } = createStore<Record<string, any>>({ a: 1 });
+    const keys: string[][] = [];
+    createEffect(() => keys.push(Object.keys(state)));
+    flushSync();
+
+    flushSync(() => setState('b', 2));
+    flushSync(() => setState('a', undefined));
+    flushSync(() => setState({ c: 3 }));
+
+    expect(keys).toEqual([['a'], ['a', 'b'], ['b'], ['b', 'c']]);
+    expect(state.a).toBeUndefined();
+  });
+
+  it('updates every item matched by a key list or filter', () => {
+    const { state, setState, getState } = cartStore();
+
+    setState('cart', 'items', item => item.qty > 1, 'qty', 0);
+    setState('cart', 'items', [0, 1], 'name', name => name.toUpperCase());
+
+    expect(unwrap(getState('cart')).items).toEqual([
+      { name: 'APPLE', qty: 1 },
+      { name: 'PEAR', qty: 0 },
+    ]);
+    expect(() => setState('cart', () => true, 'qty', 1)).toThrow(
+      'Cannot filter non-array store value at "cart"'
+    );
+    expect(state.cart.items.length).toBe(2);
+  });
+
+  it('copies the initial state, which stores then do not share', () => {
+    const initial = { count: 0, cart: { items: ['apple'] }, at: new Date(0) };
+    const first = createStore(initial);
+    const second = createStore(initial);
+
+    first.setState('count', 5);
+    first.setState('cart', 'items', items => [...items, 'pear']);
+
+    expect(initial).toEqual({
+      count: 0,
+      cart: { items: ['apple'] },
+      at: new Date(0),
+    });
+    expect(unwrap(second.state)).toEqual(initial);
+    expect(second.state.at).toBe(initial.at);
+
+    first.setState(structuredClone(initial));
+    expect(unwrap(first.state)).toEqual(initial);
+  });
+
+  it('warns instead of changing state set directly', () => {
+    const { state } = cartStore();
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+    (state.cart as any).items = [];
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(state.cart.items.length).toBe(2);
+    warn.mockRestore();
+  });
+});
+
+describe('produce', () => {
+  it('applies mutations and notifies only what they changed', () => {
+    const { state, setState } = cartStore();
+    const log: string[] = [];
+    createEffect(() => log.push(`apple ${state.cart.items[0].qty}`));
+    createEffect(() => log.push(`count ${state.cart.items.length}`));
+    createEffect(() => log.push(`second ${state.cart.items[1]?.name}`));
+    flushSync();
+    log.length = 0;
+
+    flushSync(() =>
+      setState(
+        'cart',
+        'items',
+        produce(items => {
+          items.push({ name: 'plum', qty: 1 });
+        })
+      )
+    );
+    flushSync(() =>
+      setState(
+        produce(draft => {
+          draft.cart.items[0].qty++;
+          draft.cart.items.splice(1, 1);
+        })
+      )
+    );
+
+    expect(log).toEqual(['count 3', 'apple 2', 'second plum', 'count 2']);
+  });
+});
+
+describe('reconcile', () => {
+  it('keeps unchanged items and notifies readers of changed ones', () => {
+    type Todo = { id: number; title: string };
+    const { state, setState } = createStore<{ todos: Todo[] }>({
+      todos: [
+        { id: 1, title: 'a' },
+        { id: 2, title: 'b' },
+      ],
+    });
+    const first = unwrap(state.todos[0]);
+    const log: string[] = [];
+    createEffect(() => log.push(`1 ${state.todos[0].title}`));
+    createEffect(() => log.push(`2 ${state.todos[1]?.title}`));
+    flushSync();
+    log.length = 0;
+
+    flushSync(() =>
+      setState(
+        'todos',
+        reconcile([
+          { id: 1, title: 'a' },
+          { id: 2, title: 'B' },
+          { id: 3, title: 'c' },
+        ])
+      )
+    );
+
+    expect(log).toEqual(['2 B']);
+    expect(unwrap(state.todos[0])).toBe(first);
+    expect(state.todos.length).toBe(3);
+
+    setState('todos', reconcile([{ id: 3, title: 'c' }]));
+
+    expect(unwrap(state.todos)).toEqual([{ id: 3, title: 'c' }]);
+  });
+});
+
+describe('store middleware', () => {
+  it('can veto, transform and log updates and actions', () => {
+    const log: string[] = [];
+    const { state, setState, createActions } = createStore(
+      { count: 0, items: [] as string[] },
+      {
+        middleware: [
+          (update, next) => {
+            if (update.args[0] === 'locked') return;
+            if (update.args[0] === 'count') update.args[1] *= 10;
+            return next();
+          },
+          logger({ log: label => log.push(label) }),
+        ],
+      }
+    );
+    const actions = createActions(store => ({
+      add(item: string) {
+        store.setState('items', items => [...items, item]);
+        return item.length;
+      },
+    }));
+
+    setState('count', 2);
+    (setState as any)('locked', true);
+
+    expect(actions.add('milk')).toBe(4);
+    expect(unwrap(state)).toEqual({ count: 20, items: ['milk'] });
+    expect(log).toEqual([
+      '[store] setState count',
+      '[store] setState items',
+      '[store] add',
+    ]);
+  });
+
+  it('reverts updates that leave the state invalid', () => {
+    const { state, setState, createActions } = createStore(
+      { items: ['a'], total: 1 },
+      {
+        middleware: [
+          validator({
+            total: (total, state) =>
+              total === state.items.length || 'total must match items',
+          }),
+        ],
+      }
+    );
+    const seen: Array<[number, number]> = [];
+    createEffect(() => seen.push([state.items.length, state.total]));
+    flushSync();
+    const actions = createActions(store => ({
+      add(item: string) {
+        store.setState(
+          'items',
+          produce(items => void items.push(item))
+        );
+        store.setState('total', total => total + 1);
+      },
+    }));
+
+    expect(() => setState('items', 1, 'b')).toThrow(
+      'Invalid store state: total must match items'
+    );
+    actions.add('b');
+    flushSync();
+
+    expect(unwrap(state)).toEqual({ items: ['a', 'b'], total: 2 });
+    // Effects never saw the invalid state
+    expect(seen.every(([length, total]) => length === total)).toBe(true);
+  });
+
+  it('saves the state once per microtask', async () => {
+    const saved: string[] = [];
+    const storage = {
+      getItem: () => null,
+      setItem: (_key: string, value: string) => void saved.push(value),
+      removeItem: () => {},
+    };
+    const { setState } = createStore(
+      { count: 0 },
+      { middleware: [persistence({ key: 'counter', storage })] }
+    );
+
+    setState('count', 1);
+    setState('count', 2);
+    await Promise.resolve();
+
+    expect(saved).toEqual(['{"count":2}']);
+  });
+});
+
+describe('persisted stores', () => {
+  it('restores saved state and saves the included keys', async () => {
+    const storage = createMemoryStorage({
+      cart: JSON.stringify({ version: 0, state: { items: ['apple'] } }),
+    });
+    const { state, setState } = createStore(
+      { items: [] as string[], open: false },
+      { persist: { key: 'cart', storage, include: ['items'] } }
+    );
+
+    expect(unwrap(state)).toEqual({ items: ['apple'], open: false });
+
+    setState('open', true);
+    setState('items', items => [...items, 'pear']);
+    await Promise.resolve();
+
+    expect(JSON.parse(storage.entries().cart)).toEqual({
+      version: 0,
+      state: { items: ['apple', 'pear'] },
+    });
+  });
+
+  it('migrates state saved by older versions step by step', () => {
+    const storage = createMemoryStorage({
+      todos: JSON.stringify({ version: 1, state: { list: ['a'] } }),
+    });
+    const { state } = createStore(
+      { todos: [] as Array<{ text: string; done: boolean }> },
+      {
+        persist: {
+          key: 'todos',
+          storage,
+          version: 3,
+          migrate: {
+            1: () => ({ list: [] }),
+            2: state => ({ todos: state.list }),
+            3: state => ({
+              todos: state.todos.map((text: string) => ({ text, done: false })),
+            }),
+          },
+        },
+      }
+    );
+
+    expect(unwrap(state.todos)).toEqual([{ text: 'a', done: false }]);
+  });
+
+  it('replays writes made before asynchronous storage restored', async () => {
+    const directory = `${tmpdir()}/helix-store-${Date.now()}`;
+    const files = createFileStorage(directory);
+    await files.setItem('counter', '{"version":0,"state":{"count":5}}');
+
+    // Keeps the store's writes to check and wait for them
+    const saved: string[] = [];
+    const writes: Array<void | Promise<void>> = [];
+    const storage = {
+      ...files,
+      setItem: (key: string, value: string) => {
+        saved.push(value);
+        writes.push(files.setItem(key, value));
+      },
+    };
+
+    const store = createStore(
+      { count: 0 },
+      { persist: { key: 'counter', storage } }
+    );
+    store.setState('count', count => count + 1);
+    expect(store.state.count).toBe(1);
+    await store.ready;
+
+    // The write is applied again on top of the restored state
+    expect(store.state.count).toBe(6);
+
+    store.setState('count', count => count + 1);
+    await Promise.resolve();
+    await Promise.all(writes);
+
+    expect(saved).toEqual([
+      '{"version":0,"state":{"count":6}}',
+      '{"version":0,"state":{"count":7}}',
+    ]);
+    expect(await files.getItem('counter')).toBe(saved[1]);
+    await files.removeItem('counter');
+    expect(await files.getItem('counter')).toBeNull();
+    await rm(directory, { recursive: true });
+  });
+
+  it('replays the writes of actions without running them again', async () => {
+    let calls = 0;
+    const store = createStore(
+      { count: 0, log: [] as string[] },
+      {
+        persist: {
+          key: 'counter',
+          storage: {
+            ...createMemoryStorage(),
+            getItem: async () =>
+              '{"version":0,"state":{"count":5,"log":["saved"]}}',
+          },
+        },
+      }
+    );
+    const actions = store.createActions(({ setState }) => ({
+      increment() {
+        calls++;
+        setState('count', count => count + 1);
+        setState('log', log => [...log, `call ${calls}`]);
+      },
+    }));
+
+    actions.increment();
+    await store.ready;
+
+    expect(calls).toBe(1);
+    expect(unwrap(store.state)).toEqual({
+      count: 6,
+      log: ['saved', 'call 1'],
+    });
+  });
+
+  it('does not save the state it restores', async () => {
+    const saved: string[] = [];
+    const storage = {
+      getItem: async () => '{"version":0,"state":{"items":["apple"]}}',
+      setItem: (_key: string, value: string) => void saved.push(value),
+      removeItem: () => {},
+    };
+
+    const { state, ready } = createStore(
+      { items: [] as string[] },
+      { persist: { key: 'cart', storage } }
+    );
+    await ready;
+    await Promise.resolve();
+
+    expect(state.items).toEqual(['apple']);
+    expect(saved).toEqual([]);
+  });
+});
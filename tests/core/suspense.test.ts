@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'bun:test';
+import { h } from '../../src/core/component';
+import {
+  createMemoryNode,
+  memoryHost,
+  serializeMemoryNode,
+} from '../../src/core/memory';
+import { createSignal } from '../../src/core/reactivity';
+import { createRenderer } from '../../src/core/renderer';
+import { createTransition } from '../../src/core/scheduler';
+import { Suspense } from '../../src/core/suspense';
+import { lazy } from '../../src/utils/lazy';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const { render } = createRenderer(memoryHost);
+
+// A lazy page that loads when `load` is called
+function lazyPage(text: string) {
+  let load!: () => void;
+  const Page = lazy(
+    () =>
+      new Promise<any>(resolve => {
+        load = () => resolve({ default: () => h('p', {}, text) });
+      })
+  );
+  return { Page, load: () => load() };
+}
+
+describe('Suspense', () => {
+  it('shows the fallback until suspended children can render', async () => {
+    const root = createMemoryNode();
+    const about = lazyPage('about');
+    render(h(Suspense, { fallback: 'Loading' }, h(about.Page, {})), root);
+    await tick();
+
+    expect(serializeMemoryNode(root)).toBe('Loading');
+
+    about.load();
+    await tick();
+
+    expect(serializeMemoryNode(root)).toBe('<p>about</p>');
+  });
+
+  it('shows the fallback when an urgent update suspends', async () => {
+    const root = createMemoryNode();
+    const about = lazyPage('about');
+    const [page, setPage] = createSignal('home');
+    render(
+      h(Suspense, { fallback: 'Loading' }, () =>
+        page() === 'home' ? h('p', {}, 'home') : h(about.Page, {})
+      ),
+      root
+    );
+
+    setPage('about');
+    await tick();
+
+    expect(serializeMemoryNode(root)).toBe('Loading');
+  });
+
+  it('keeps the current content while a transition suspends', async () => {
+    const root = createMemoryNode();
+    const about = lazyPage('about');
+    const [page, setPage] = createSignal('home');
+    const [isPending, start] = createTransition();
+    render(
+      h(
+        Suspense,
+        { fallback: 'Loading' },
+        h('main', {}, () =>
+          page() === 'home' ? h('p', {}, 'home') : h(about.Page, {})
+        )
+      ),
+      root
+    );
+
+    start(() => setPage('about'));
+    await tick();
+
+    expect(serializeMemoryNode(root)).toBe('<main><p>home</p></main>');
+    expect(isPending()).toBe(true);
+
+    about.load();
+    await tick();
+
+    expect(serializeMemoryNode(root)).toBe('<main><p>about</p></main>');
+    expect(isPending()).toBe(false);
+  });
+});
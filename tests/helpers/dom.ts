@@ -0,0 +1,345 @@
+/**
+ * Minimal DOM for tests that counts the mutations made to attached nodes
+ */
+
+export interface DOMStats {
+  // Nodes inserted that were not in the document yet
+  inserts: number;
+  // Nodes inserted that already had a parent in the document
+  moves: number;
+  removes: number;
+}
+
+export const stats: DOMStats = { inserts: 0, moves: 0, removes: 0 };
+
+export function resetStats(): void {
+  stats.inserts = 0;
+  stats.moves = 0;
+  stats.removes = 0;
+}
+
+class FakeNode {
+  nodeType: number;
+  nodeName: string;
+  parentNode: FakeNode | null = null;
+  childNodes: FakeNode[] = [];
+  data = '';
+
+  constructor(nodeType: number, nodeName: string) {
+    this.nodeType = nodeType;
+    this.nodeName = nodeName;
+  }
+
+  get firstChild(): FakeNode | null {
+    return this.childNodes[0] ?? null;
+  }
+
+  get nextSibling(): FakeNode | null {
+    if (!this.parentNode) return null;
+    const siblings = this.parentNode.childNodes;
+    return siblings[siblings.indexOf(this) + 1] ?? null;
+  }
+
+  get textContent(): string {
+    return this.nodeType === 3
+      ? this.data
+      : this.childNodes.map(child => child.textContent).join('');
+  }
+
+  set textContent(value: string) {
+    if (this.nodeType === 3) {
+      this.data = value;
+      return;
+    }
+    for (const child of this.childNodes) {
+      child.parentNode = null;
+    }
+    this.childNodes = [];
+    if (value) this.appendChild(new FakeNode(3, '#text').withData(value));
+  }
+
+  withData(data: string): FakeNode {
+    this.data = data;
+    return this;
+  }
+
+  insertBefore(node: FakeNode, before: FakeNode | null): FakeNode {
+    // Fragments insert their children
+    if (node.nodeType === 11) {
+      for (const child of [...node.childNodes]) {
+        this.insertBefore(child, before);
+      }
+      return node;
+    }
+
+    if (isConnected(this)) {
+      if (node.parentNode && isConnected(node.parentNode)) {
+        stats.moves++;
+      } else {
+        stats.inserts++;
+      }
+    }
+
+    if (node.parentNode) {
+      detach(node);
+    }
+
+    const index = before ? this.childNodes.indexOf(before) : -1;
+    if (index < 0) {
+      this.childNodes.push(node);
+    } else {
+      this.childNodes.splice(index, 0, node);
+    }
+    node.parentNode = this;
+    return node;
+  }
+
+  appendChild(node: FakeNode): FakeNode {
+    return this.insertBefore(node, null);
+  }
+
+  removeChild(node: FakeNode): FakeNode {
+    if (isConnected(this)) stats.removes++;
+    detach(node);
+    return node;
+  }
+
+  replaceChild(node: FakeNode, old: FakeNode): FakeNode {
+    this.insertBefore(node, old);
+    return this.removeChild(old);
+  }
+}
+
+// Elements that hold a live `value` and `checked` state
+const FORM_TAGS = new Set(['input', 'select', 'textarea', 'option']);
+
+class FakeElement extends FakeNode {
+  attributes: Record<string, string> = {};
+  style = createStyle(this);
+  classList = new FakeClassList(this);
+  namespaceURI: string | null;
+  value?: string;
+  checked?: boolean;
+  private listeners: Array<{
+    type: string;
+    listener: EventListener;
+    capture: boolean;
+  }> = [];
+
+  constructor(tag: string, namespaceURI: string | null = null) {
+    super(1, tag.toUpperCase());
+    this.namespaceURI = namespaceURI;
+    if (FORM_TAGS.has(tag)) {
+      this.value = '';
+      this.checked = false;
+    }
+  }
+
+  set innerHTML(value: string) {
+    this.textContent = value;
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.attributes[name] = value;
+  }
+
+  removeAttribute(name: string): void {
+    delete this.attributes[name];
+  }
+
+  // Namespaced attributes are kept under their qualified name
+  setAttributeNS(_namespace: string, name: string, value: string): void {
+    this.attributes[name] = value;
+  }
+
+  removeAttributeNS(_namespace: string, localName: string): void {
+    for (const name of Object.keys(this.attributes)) {
+      if (name.split(':').pop() === localName) delete this.attributes[name];
+    }
+  }
+
+  addEventListener(
+    type: string,
+    listener: EventListener,
+    capture = false
+  ): void {
+    this.removeEventListener(type, listener, capture);
+    this.listeners.push({ type, listener, capture });
+  }
+
+  removeEventListener(
+    type: string,
+    listener: EventListener,
+    capture = false
+  ): void {
+    this.listeners = this.listeners.filter(
+      entry =>
+        entry.type !== type ||
+        entry.listener !== listener ||
+        entry.capture !== capture
+    );
+  }
+
+  /**
+   * Calls the capture listeners from the outermost ancestor down, then the
+   * bubble listeners back up, until one stops propagation
+   */
+  dispatchEvent(event: Event): boolean {
+    Object.defineProperty(event, 'target', { configurable: true, value: this });
+
+    const path: FakeElement[] = [];
+    for (let node: FakeNode | null = this; node; node = node.parentNode) {
+      if (node instanceof FakeElement) path.push(node);
+    }
+    const phases: Array<[FakeElement, boolean]> = [
+      ...[...path].reverse().map(node => [node, true] as [FakeElement, true]),
+      ...(event.bubbles ? path : [this]).map(
+        node => [node, false] as [FakeElement, false]
+      ),
+    ];
+
+    for (const [node, capture] of phases) {
+      for (const entry of node.listeners) {
+        if (entry.type === event.type && entry.capture === capture) {
+          entry.listener.call(node, event);
+        }
+      }
+      if (event.cancelBubble) break;
+    }
+    return !event.defaultPrevented;
+  }
+}
+
+/**
+ * Class tokens of an element, kept in its `class` attribute
+ */
+class FakeClassList {
+  constructor(private element: FakeElement) {}
+
+  private get tokens(): string[] {
+    return (this.element.attributes.class ?? '').split(' ').filter(Boolean);
+  }
+
+  private set tokens(tokens: string[]) {
+    this.element.attributes.class = tokens.join(' ');
+  }
+
+  get length(): number {
+    return this.tokens.length;
+  }
+
+  contains(token: string): boolean {
+    return this.tokens.includes(token);
+  }
+
+  add(...tokens: string[]): void {
+    const current = this.tokens;
+    this.tokens = [...current, ...tokens.filter(t => !current.includes(t))];
+  }
+
+  remove(...tokens: string[]): void {
+    this.tokens = this.tokens.filter(token => !tokens.includes(token));
+  }
+}
+
+/**
+ * Inline style of an element, kept in its `style` attribute. Properties
+ * can be set by kebab-case name or as camelCase fields.
+ */
+function createStyle(element: FakeElement): any {
+  const read = () =>
+    new Map(
+      (element.attributes.style ?? '')
+        .split(';')
+        .filter(Boolean)
+        .map(declaration => {
+          const separator = declaration.indexOf(':');
+          return [
+            declaration.slice(0, separator).trim(),
+            declaration.slice(separator + 1).trim(),
+          ] as [string, string];
+        })
+    );
+  const write = (properties: Map<string, string>) => {
+    element.attributes.style = [...properties]
+      .map(([name, value]) => `${name}: ${value};`)
+      .join(' ');
+  };
+
+  const style = {
+    get cssText(): string {
+      return element.attributes.style ?? '';
+    },
+    set cssText(value: string) {
+      write(new Map());
+      for (const declaration of value.split(';')) {
+        const [name, property] = declaration.split(':');
+        if (property?.trim()) style.setProperty(name.trim(), property.trim());
+      }
+    },
+    getPropertyValue: (name: string) => read().get(name) ?? '',
+    setProperty(name: string, value: string) {
+      const properties = read();
+      if (value === '') {
+        properties.delete(name);
+      } else {
+        properties.set(name, value);
+      }
+      write(properties);
+    },
+    removeProperty(name: string) {
+      const properties = read();
+      properties.delete(name);
+      write(properties);
+    },
+  };
+
+  const kebab = (key: string) =>
+    key.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+
+  return new Proxy(style, {
+    get: (target, key) =>
+      key in target || typeof key !== 'string'
+        ? Reflect.get(target, key)
+        : target.getPropertyValue(kebab(key)),
+    set: (target, key, value) => {
+      if (key in target || typeof key !== 'string') {
+        return Reflect.set(target, key, value);
+      }
+      target.setProperty(kebab(key), String(value));
+      return true;
+    },
+  });
+}
+
+function detach(node: FakeNode): void {
+  const siblings = node.parentNode!.childNodes;
+  siblings.splice(siblings.indexOf(node), 1);
+  node.parentNode = null;
+}
+
+function isConnected(node: FakeNode): boolean {
+  let current: FakeNode | null = node;
+  while (current.parentNode) current = current.parentNode;
+  return current === fakeDocument.body;
+}
+
+const fakeDocument = {
+  body: new FakeElement('body'),
+  createElement: (tag: string) => new FakeElement(tag),
+  createElementNS: (namespace: string, tag: string) =>
+    new FakeElement(tag, namespace),
+  createTextNode: (data: string) => new FakeNode(3, '#text').withData(data),
+  createDocumentFragment: () => new FakeNode(11, '#document-fragment'),
+};
+
+/**
+ * Installs the fake document globally and returns a fresh container
+ * attached to its body
+ */
+export function createContainer(): any {
+  (globalThis as any).document = fakeDocument;
+  const container = new FakeElement('div');
+  fakeDocument.body.appendChild(container);
+  return container;
+}